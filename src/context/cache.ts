@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { StoredContent } from '../storage/base.js';
+import { DetailLevel } from './outline.js';
+import { RedactionFinding } from './redaction.js';
+
+// What was last seen of a local file, so it needn't be read again while unchanged
+interface FileRecord {
+  mtimeMs: number;
+  size: number;
+  hash: string;
+}
+
+/**
+ * A file as it was packaged for one set of options: decoded, outlined and
+ * redacted content with its token count, or the reason it was skipped
+ */
+export interface CachedSegment {
+  content: string;
+  tokens: number;
+  detail?: DetailLevel;
+  skipReason?: string;
+  // Redaction findings and allowlisted matches, replayed into the report on reuse
+  findings: Array<Omit<RedactionFinding, 'path'>>;
+  allowed: number;
+}
+
+// Where a packaged context was stored before
+interface StoredRecord extends StoredContent {
+  hash: string;
+}
+
+// How often unused segments are looked for
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Content-addressed cache for packaged context, kept under
+ * `<tempDirectory>/context-cache`:
+ *
+ * - `files.json` maps local paths to their last seen mtime, size and hash
+ * - `segments/<key>.json` holds a packaged file, keyed by its hash, path and
+ *   the options that affect how it is packaged
+ * - `stored.json` maps packaged contexts, by content hash, to where they
+ *   were saved in each storage backend
+ *
+ * Indexes are loaded on first use and written back by `flush`, which also
+ * removes segments that haven't been used for CONTEXT_CACHE_MAX_AGE_DAYS.
+ * A segment's modification time is when it was last used.
+ */
+export class ContextCache {
+  private static instance: ContextCache;
+  private cacheDirectory: string;
+  private files?: Record<string, FileRecord>;
+  private stored?: Record<string, StoredRecord>;
+
+  private constructor() {
+    this.cacheDirectory = path.resolve(process.cwd(), config.get('tempDirectory'), 'context-cache');
+  }
+
+  public static getInstance(): ContextCache {
+    if (!ContextCache.instance) {
+      ContextCache.instance = new ContextCache();
+    }
+    return ContextCache.instance;
+  }
+
+  /**
+   * Hash of a file's content if it hasn't changed since it was last recorded
+   */
+  public getFileHash(filePath: string, stats: { mtimeMs: number; size: number }): string | undefined {
+    const record = this.loadFiles()[path.resolve(filePath)];
+    return record && record.mtimeMs === stats.mtimeMs && record.size === stats.size ? record.hash : undefined;
+  }
+
+  public recordFile(filePath: string, stats: { mtimeMs: number; size: number }, hash: string): void {
+    this.loadFiles()[path.resolve(filePath)] = { mtimeMs: stats.mtimeMs, size: stats.size, hash };
+  }
+
+  public getSegment(key: string): CachedSegment | undefined {
+    const segmentPath = this.segmentPath(key);
+    if (!fs.existsSync(segmentPath)) {
+      return undefined;
+    }
+
+    try {
+      const segment = JSON.parse(fs.readFileSync(segmentPath, 'utf-8')) as CachedSegment;
+      const now = new Date();
+      fs.utimesSync(segmentPath, now, now);
+      return segment;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable cached segment ${segmentPath}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  public putSegment(key: string, segment: CachedSegment): void {
+    const segmentPath = this.segmentPath(key);
+    fs.mkdirSync(path.dirname(segmentPath), { recursive: true });
+    fs.writeFileSync(segmentPath, JSON.stringify(segment), 'utf-8');
+  }
+
+  /**
+   * Where content with this hash was stored before in a backend, if anywhere
+   */
+  public getStored(backendKey: string, hash: string): StoredContent | undefined {
+    const record = this.loadStored()[`${backendKey}:${hash}`];
+    return record ? { path: record.path, location: record.location } : undefined;
+  }
+
+  public recordStored(backendKey: string, hash: string, stored: StoredContent): void {
+    this.loadStored()[`${backendKey}:${hash}`] = { ...stored, hash };
+  }
+
+  public forgetStored(backendKey: string, hash: string): void {
+    delete this.loadStored()[`${backendKey}:${hash}`];
+  }
+
+  /**
+   * Write the file and storage indexes back to disk, and remove unused segments
+   */
+  public flush(): void {
+    try {
+      fs.mkdirSync(this.cacheDirectory, { recursive: true });
+      if (this.files) {
+        fs.writeFileSync(path.join(this.cacheDirectory, 'files.json'), JSON.stringify(this.files), 'utf-8');
+      }
+      if (this.stored) {
+        fs.writeFileSync(path.join(this.cacheDirectory, 'stored.json'), JSON.stringify(this.stored, null, 2), 'utf-8');
+      }
+    } catch (error) {
+      logger.warn(`Failed to write context cache: ${(error as Error).message}`);
+    }
+
+    this.pruneSegments();
+  }
+
+  /**
+   * Remove segments that haven't been used for CONTEXT_CACHE_MAX_AGE_DAYS.
+   * Unless forced, this runs at most once a day, tracked by the modification
+   * time of `segments/.pruned`.
+   * @returns The number of segments removed
+   */
+  public pruneSegments(force: boolean = false): number {
+    const segmentsDirectory = path.join(this.cacheDirectory, 'segments');
+    const markerPath = path.join(segmentsDirectory, '.pruned');
+    const now = Date.now();
+
+    try {
+      if (!fs.existsSync(segmentsDirectory) ||
+          (!force && fs.existsSync(markerPath) && now - fs.statSync(markerPath).mtimeMs < PRUNE_INTERVAL_MS)) {
+        return 0;
+      }
+      fs.writeFileSync(markerPath, '', 'utf-8');
+
+      const cutoff = now - config.get('contextCacheMaxAgeDays') * 24 * 60 * 60 * 1000;
+      let removed = 0;
+      for (const shard of fs.readdirSync(segmentsDirectory, { withFileTypes: true })) {
+        if (!shard.isDirectory()) {
+          continue;
+        }
+
+        const shardPath = path.join(segmentsDirectory, shard.name);
+        for (const file of fs.readdirSync(shardPath)) {
+          const segmentPath = path.join(shardPath, file);
+          if (fs.statSync(segmentPath).mtimeMs < cutoff) {
+            fs.rmSync(segmentPath, { force: true });
+            removed++;
+          }
+        }
+      }
+
+      if (removed > 0) {
+        logger.info(`Removed ${removed} context cache segments unused for ${config.get('contextCacheMaxAgeDays')} days`);
+      }
+      return removed;
+    } catch (error) {
+      logger.warn(`Failed to prune context cache: ${(error as Error).message}`);
+      return 0;
+    }
+  }
+
+  private loadFiles(): Record<string, FileRecord> {
+    return this.files ??= this.readIndex('files.json');
+  }
+
+  private loadStored(): Record<string, StoredRecord> {
+    return this.stored ??= this.readIndex('stored.json');
+  }
+
+  private readIndex<T>(name: string): Record<string, T> {
+    const indexPath = path.join(this.cacheDirectory, name);
+    if (!fs.existsSync(indexPath)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as Record<string, T>;
+    } catch (error) {
+      logger.warn(`Ignoring unreadable context cache index ${indexPath}: ${(error as Error).message}`);
+      return {};
+    }
+  }
+
+  // Segments are spread over subdirectories by the first two characters of their key
+  private segmentPath(key: string): string {
+    return path.join(this.cacheDirectory, 'segments', key.slice(0, 2), `${key}.json`);
+  }
+}
+
+/**
+ * SHA-256 of some content, as hex
+ */
+export function contentHash(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+// Export a default instance
+export const contextCache = ContextCache.getInstance();
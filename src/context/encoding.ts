@@ -0,0 +1,119 @@
+// Text encodings that context files are transcoded from
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'latin1';
+
+// The outcome of sniffing a file: its text, or why it isn't text
+export type DecodedFile =
+  | { text: string; encoding: TextEncoding }
+  | { skipReason: string };
+
+// Bytes inspected when guessing at BOM-less UTF-16 and counting control characters
+const SAMPLE_SIZE = 8192;
+
+// Share of control characters above which a file is treated as binary
+const MAX_CONTROL_RATIO = 0.01;
+
+/**
+ * Decode a file's bytes as text, or explain why it can't be.
+ *
+ * Byte order marks are honoured and BOM-less UTF-16 is recognised by the
+ * zero bytes that pad ASCII characters. Anything else containing a NUL byte,
+ * or more than a sprinkling of control characters, is binary. Valid UTF-8
+ * is used as is; other text is read as Latin-1 (Windows-1252).
+ */
+export function decodeText(data: Buffer): DecodedFile {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) {
+    return decodeUtf8(data.subarray(3)) ?? { skipReason: 'binary, invalid UTF-8 after byte order mark' };
+  }
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return decodeUtf16(data.subarray(2), 'utf-16le');
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    return decodeUtf16(data.subarray(2), 'utf-16be');
+  }
+
+  const utf16 = detectUtf16(data);
+  if (utf16) {
+    return decodeUtf16(data, utf16);
+  }
+
+  if (data.includes(0)) {
+    return { skipReason: 'binary, contains NUL bytes' };
+  }
+  if (hasTooManyControlCharacters(data.subarray(0, SAMPLE_SIZE))) {
+    return { skipReason: 'binary, control characters' };
+  }
+
+  return decodeUtf8(data) ?? { text: new TextDecoder('latin1').decode(data), encoding: 'latin1' };
+}
+
+/**
+ * Reason for skipping a file larger than the size cap
+ */
+export function sizeCapReason(size: number, maxFileSize: number): string {
+  return `size ${size} bytes exceeds cap of ${maxFileSize} bytes`;
+}
+
+function decodeUtf8(data: Buffer): { text: string; encoding: TextEncoding } | undefined {
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(data), encoding: 'utf-8' };
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeUtf16(data: Buffer, encoding: 'utf-16le' | 'utf-16be'): DecodedFile {
+  try {
+    const text = new TextDecoder(encoding, { fatal: true }).decode(data);
+    if (text.includes('\0')) {
+      return { skipReason: `binary, NUL characters in ${encoding}` };
+    }
+    // Binary data can pass for UTF-16, so the decoded text gets the same check as 8-bit text
+    if (hasTooManyControlCharacters(Array.from(text.slice(0, SAMPLE_SIZE / 2), char => char.charCodeAt(0)))) {
+      return { skipReason: `binary, control characters in ${encoding}` };
+    }
+    return { text, encoding };
+  } catch {
+    return { skipReason: `binary, invalid ${encoding}` };
+  }
+}
+
+/**
+ * Recognise BOM-less UTF-16 from mostly-ASCII text: nearly every other byte
+ * is zero, on the high side of each code unit
+ */
+function detectUtf16(data: Buffer): 'utf-16le' | 'utf-16be' | undefined {
+  const units = Math.floor(Math.min(data.length, SAMPLE_SIZE) / 2);
+  if (units < 2) {
+    return undefined;
+  }
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < units; i++) {
+    if (data[2 * i] === 0) evenZeros++;
+    if (data[2 * i + 1] === 0) oddZeros++;
+  }
+
+  if (oddZeros >= units * 0.4 && evenZeros <= units * 0.05) {
+    return 'utf-16le';
+  }
+  if (evenZeros >= units * 0.4 && oddZeros <= units * 0.05) {
+    return 'utf-16be';
+  }
+  return undefined;
+}
+
+// Control characters that don't appear in text (tab, newlines, form feed and escape do),
+// counted in bytes or in the character codes of decoded text
+function hasTooManyControlCharacters(sample: ArrayLike<number>): boolean {
+  let count = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const code = sample[i];
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0b && code !== 0x0c && code !== 0x0d && code !== 0x1b) {
+      count++;
+    } else if (code === 0x7f) {
+      count++;
+    }
+  }
+  return count > sample.length * MAX_CONTROL_RATIO;
+}
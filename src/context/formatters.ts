@@ -0,0 +1,274 @@
+import path from 'path';
+import type { DetailLevel } from './outline.js';
+
+// Output formats supported by the context packager
+export const contextFormats = ['text', 'xml', 'json', 'markdown'] as const;
+
+export type ContextFormat = typeof contextFormats[number];
+
+// Entry in the context manifest
+export interface ManifestEntry {
+  path: string;
+  tokens: number;
+  // Set when the file was reduced to an outline or its names
+  detail?: DetailLevel;
+  reason?: string;
+}
+
+// What was included in and dropped from a packaged context
+export interface ContextManifest {
+  included: ManifestEntry[];
+  omitted: ManifestEntry[];
+  maxContextTokens?: number;
+}
+
+// A file as it appears in the packaged context
+export interface ContextFileEntry {
+  path: string;
+  language: string;
+  size: number;
+  detail?: DetailLevel;
+  content: string;
+}
+
+// A requested path that couldn't be packaged (missing or unreadable)
+export interface ContextNotice {
+  path: string;
+  message: string;
+}
+
+// Everything that goes into a packaged context
+export interface ContextDocument {
+  manifest: ContextManifest;
+  files: ContextFileEntry[];
+  notices: ContextNotice[];
+  comment?: string;
+}
+
+/**
+ * Renders a packaged context in one output format.
+ *
+ * `formatFile` renders a single file the way it appears in the document, so
+ * the packager can charge each file its share of the token budget.
+ */
+export interface ContextFormatter {
+  readonly format: ContextFormat;
+  readonly extension: string;
+  formatFile(file: ContextFileEntry): string;
+  render(document: ContextDocument): string;
+}
+
+/**
+ * C-style comment headers before each file (the original format)
+ */
+const textFormatter: ContextFormatter = {
+  format: 'text',
+  extension: 'txt',
+
+  formatFile(file) {
+    return `\n\n/* FILE: ${file.path}${file.detail ? ` (${file.detail})` : ''} */\n${file.content}`;
+  },
+
+  render(document) {
+    const includedTokens = document.manifest.included.reduce((sum, entry) => sum + entry.tokens, 0);
+    let result = `/* MANIFEST\n * Included (${document.manifest.included.length} files, ~${includedTokens} tokens):\n`;
+
+    for (const entry of document.manifest.included) {
+      result += ` *   ${entry.path} (~${entry.tokens} tokens${entry.detail ? `, ${entry.detail}` : ''})\n`;
+    }
+
+    if (document.manifest.omitted.length > 0) {
+      result += ` * Omitted (${document.manifest.omitted.length} files` +
+                (document.manifest.maxContextTokens !== undefined ? `, budget ${document.manifest.maxContextTokens} tokens` : '') +
+                `):\n`;
+
+      for (const entry of document.manifest.omitted) {
+        result += ` *   ${entry.path} (~${entry.tokens} tokens${entry.reason ? `, ${entry.reason}` : ''})\n`;
+      }
+    }
+
+    result += ' */';
+    result += document.files.map(file => this.formatFile(file)).join('');
+    result += document.notices.map(notice => `\n\n/* FILE: ${notice.path} - ${notice.message} */\n`).join('');
+
+    if (document.comment) {
+      result += `\n\n/* COMMENT: */\n${document.comment}\n`;
+    }
+
+    return result;
+  },
+};
+
+/**
+ * XML-style `<file path="...">` blocks. File content is left unescaped so
+ * code reads naturally; only attribute values are escaped.
+ */
+const xmlFormatter: ContextFormatter = {
+  format: 'xml',
+  extension: 'xml',
+
+  formatFile(file) {
+    return `<file path="${escapeAttribute(file.path)}" language="${file.language}" size="${file.size}"` +
+           (file.detail ? ` detail="${file.detail}"` : '') + '>\n' +
+           `${withTrailingNewline(file.content)}</file>\n`;
+  },
+
+  render(document) {
+    let result = '<context>\n<manifest';
+    if (document.manifest.maxContextTokens !== undefined) {
+      result += ` max-tokens="${document.manifest.maxContextTokens}"`;
+    }
+    result += '>\n';
+
+    for (const entry of document.manifest.included) {
+      result += `  <included path="${escapeAttribute(entry.path)}" tokens="${entry.tokens}"` +
+                (entry.detail ? ` detail="${entry.detail}"` : '') + '/>\n';
+    }
+
+    for (const entry of document.manifest.omitted) {
+      result += `  <omitted path="${escapeAttribute(entry.path)}" tokens="${entry.tokens}"` +
+                (entry.reason ? ` reason="${escapeAttribute(entry.reason)}"` : '') + '/>\n';
+    }
+
+    result += '</manifest>\n';
+    result += document.files.map(file => this.formatFile(file)).join('');
+    result += document.notices
+      .map(notice => `<notice path="${escapeAttribute(notice.path)}">${escapeText(notice.message)}</notice>\n`)
+      .join('');
+
+    if (document.comment) {
+      result += `<comment>\n${document.comment}\n</comment>\n`;
+    }
+
+    return result + '</context>\n';
+  },
+};
+
+/**
+ * A single JSON document with the manifest and `{path, language, size, content}` file entries
+ */
+const jsonFormatter: ContextFormatter = {
+  format: 'json',
+  extension: 'json',
+
+  formatFile(file) {
+    return JSON.stringify(file, null, 2);
+  },
+
+  render(document) {
+    return JSON.stringify(document, null, 2) + '\n';
+  },
+};
+
+/**
+ * Markdown with a heading per file and fenced code blocks with language hints
+ */
+const markdownFormatter: ContextFormatter = {
+  format: 'markdown',
+  extension: 'md',
+
+  formatFile(file) {
+    // The fence must be longer than any backtick run inside the file
+    const longestRun = Math.max(0, ...(file.content.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    const hint = file.language === 'text' ? '' : file.language;
+
+    return `\n## ${file.path}${file.detail ? ` (${file.detail})` : ''}\n\n${fence}${hint}\n${withTrailingNewline(file.content)}${fence}\n`;
+  },
+
+  render(document) {
+    let result = '# Context\n\n## Manifest\n\n';
+
+    for (const entry of document.manifest.included) {
+      result += `- \`${entry.path}\` (~${entry.tokens} tokens${entry.detail ? `, ${entry.detail}` : ''})\n`;
+    }
+
+    if (document.manifest.omitted.length > 0) {
+      result += `\nOmitted` +
+                (document.manifest.maxContextTokens !== undefined ? ` (budget ${document.manifest.maxContextTokens} tokens)` : '') +
+                ':\n\n';
+
+      for (const entry of document.manifest.omitted) {
+        result += `- \`${entry.path}\` (~${entry.tokens} tokens${entry.reason ? `, ${entry.reason}` : ''})\n`;
+      }
+    }
+
+    result += document.files.map(file => this.formatFile(file)).join('');
+
+    if (document.notices.length > 0) {
+      result += '\n## Notices\n\n' +
+                document.notices.map(notice => `- \`${notice.path}\`: ${notice.message}\n`).join('');
+    }
+
+    if (document.comment) {
+      result += `\n## Comment\n\n${document.comment}\n`;
+    }
+
+    return result;
+  },
+};
+
+const formatters: Record<ContextFormat, ContextFormatter> = {
+  text: textFormatter,
+  xml: xmlFormatter,
+  json: jsonFormatter,
+  markdown: markdownFormatter,
+};
+
+/**
+ * Get the formatter for an output format
+ */
+export function getContextFormatter(format: ContextFormat = 'text'): ContextFormatter {
+  return formatters[format];
+}
+
+/**
+ * Pick the context format a provider's models handle best: Anthropic models
+ * are trained on XML-tagged documents, the others on Markdown
+ */
+export function contextFormatForProvider(providerName: string): ContextFormat {
+  switch (providerName) {
+    case 'anthropic':
+      return 'xml';
+    case 'openai':
+    case 'gemini':
+      return 'markdown';
+    default:
+      return 'text';
+  }
+}
+
+// Language hints by file extension
+const languages: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'tsx', '.mts': 'typescript', '.cts': 'typescript',
+  '.js': 'javascript', '.jsx': 'jsx', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.py': 'python', '.go': 'go', '.rs': 'rust', '.java': 'java', '.kt': 'kotlin',
+  '.rb': 'ruby', '.php': 'php', '.cs': 'csharp', '.swift': 'swift',
+  '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.cc': 'cpp', '.hpp': 'cpp',
+  '.sh': 'bash', '.bash': 'bash', '.zsh': 'zsh', '.ps1': 'powershell',
+  '.json': 'json', '.yaml': 'yaml', '.yml': 'yaml', '.toml': 'toml', '.xml': 'xml',
+  '.html': 'html', '.css': 'css', '.scss': 'scss', '.sql': 'sql',
+  '.md': 'markdown', '.diff': 'diff', '.patch': 'diff', '.graphql': 'graphql', '.proto': 'protobuf',
+};
+
+/**
+ * Guess a file's language from its name, for fenced code block hints
+ */
+export function detectLanguage(filePath: string): string {
+  const name = path.basename(filePath);
+  if (name === 'Dockerfile') return 'dockerfile';
+  if (name === 'Makefile') return 'makefile';
+  return languages[path.extname(name).toLowerCase()] ?? 'text';
+}
+
+function withTrailingNewline(content: string): string {
+  return content.endsWith('\n') ? content : `${content}\n`;
+}
+
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, '&quot;');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
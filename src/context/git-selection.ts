@@ -0,0 +1,218 @@
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { runGit, runGitRaw } from '../utils/git.js';
+import { sizeCapReason } from './encoding.js';
+
+// Selects a set of changes in the local repository
+export interface GitSelection {
+  // Revision or range, e.g. `main...HEAD`; a single revision is compared with the working tree
+  diff?: string;
+  // Changes staged in the index
+  staged?: boolean;
+  // Changes made by a single commit
+  commit?: string;
+  // Also include unchanged files in the directories of the changed files
+  surrounding?: boolean;
+}
+
+// A file touched by (or next to) the selected changes, with its post-change content
+export interface GitChangeFile {
+  // Path within the repository
+  path: string;
+  // Raw bytes, decoded by the packager
+  data: Buffer;
+  size: number;
+  // Whether the file was changed rather than included as surrounding context
+  changed: boolean;
+  // Why the file was skipped (unreadable or over the size cap), if it was
+  skipReason?: string;
+}
+
+// The selected changes: the unified diff and the files it touches
+export interface GitChanges {
+  root: string;
+  // Short description of the selection, e.g. `main...HEAD` or `staged`
+  label: string;
+  diff: string;
+  files: GitChangeFile[];
+  deleted: string[];
+}
+
+// Decides whether a file should be packaged
+export type GitPathFilter = (repoPath: string) => boolean;
+
+// Where post-change content is read from: the working tree, the index or a revision
+type ContentSource = { kind: 'worktree' } | { kind: 'index' } | { kind: 'revision'; revision: string };
+
+/**
+ * Whether any git selector is set
+ */
+export function hasGitSelection(selection: GitSelection): boolean {
+  return selection.diff !== undefined || selection.staged === true || selection.commit !== undefined;
+}
+
+/**
+ * Collect the unified diff for a git selector along with the full post-change
+ * content of every touched file and, optionally, the unchanged files next to them
+ */
+export async function collectGitChanges(
+  selection: GitSelection,
+  filter: GitPathFilter,
+  maxFileSize: number
+): Promise<GitChanges> {
+  const selectors = [selection.diff !== undefined, selection.staged === true, selection.commit !== undefined];
+  if (selectors.filter(Boolean).length !== 1) {
+    throw new Error('Use exactly one of diff, staged or commit');
+  }
+
+  const root = (await runGit(['rev-parse', '--show-toplevel'], { cwd: process.cwd() })).trim();
+  const git = (args: string[]) => runGit(args, { cwd: root });
+
+  let label: string;
+  let diffArgs: string[];
+  let source: ContentSource;
+
+  if (selection.staged) {
+    label = 'staged';
+    diffArgs = ['diff', '--cached'];
+    source = { kind: 'index' };
+  } else if (selection.commit !== undefined) {
+    const commit = (await git(['rev-parse', '--verify', '--end-of-options', `${selection.commit}^{commit}`])).trim();
+    label = `commit-${commit.slice(0, 7)}`;
+    diffArgs = ['diff-tree', '-r', '--root', '--no-commit-id', commit];
+    source = { kind: 'revision', revision: commit };
+  } else {
+    const range = selection.diff!.trim();
+    if (!range || range.startsWith('-')) {
+      throw new Error(`Invalid diff range: ${selection.diff}`);
+    }
+    label = range;
+    diffArgs = ['diff', range];
+    source = contentSourceForRange(range);
+  }
+
+  const diff = await git([...diffArgs, '-M', '--no-color', '--no-ext-diff', '-p', '--']);
+  const changes = parseNameStatus(await git([...diffArgs, '-M', '--name-status', '-z', '--']));
+  logger.info(`Git selection ${label} touches ${changes.touched.length + changes.deleted.length} files`);
+
+  const files: GitChangeFile[] = [];
+  for (const repoPath of changes.touched.filter(filter)) {
+    files.push(await readChangeFile(root, source, repoPath, true, maxFileSize));
+  }
+
+  if (selection.surrounding) {
+    const seen = new Set([...changes.touched, ...changes.deleted]);
+    const directories = new Set([...changes.touched, ...changes.deleted].map(repoPath => path.posix.dirname(repoPath)));
+
+    for (const directory of directories) {
+      for (const repoPath of await listDirectory(git, root, source, directory)) {
+        if (!seen.has(repoPath) && filter(repoPath)) {
+          seen.add(repoPath);
+          files.push(await readChangeFile(root, source, repoPath, false, maxFileSize));
+        }
+      }
+    }
+  }
+
+  return { root, label, diff, files, deleted: changes.deleted };
+}
+
+/**
+ * Work out which side of a range holds the post-change content. `a...b` and
+ * `a..b` end at `b` (HEAD if empty); a single revision is compared with the
+ * working tree.
+ */
+function contentSourceForRange(range: string): ContentSource {
+  const match = range.match(/^(.*?)\.\.\.?(.*)$/);
+  if (!match) {
+    return { kind: 'worktree' };
+  }
+  return { kind: 'revision', revision: match[2] || 'HEAD' };
+}
+
+/**
+ * Parse `--name-status -z` output into touched (added, modified, renamed,
+ * copied) and deleted paths
+ */
+function parseNameStatus(output: string): { touched: string[]; deleted: string[] } {
+  const fields = output.split('\0').filter(Boolean);
+  const touched: string[] = [];
+  const deleted: string[] = [];
+
+  for (let i = 0; i < fields.length; i++) {
+    const status = fields[i];
+
+    if (status.startsWith('R') || status.startsWith('C')) {
+      // Renames and copies list the old path, then the new one
+      touched.push(fields[i + 2]);
+      i += 2;
+    } else if (status.startsWith('D')) {
+      deleted.push(fields[++i]);
+    } else {
+      touched.push(fields[++i]);
+    }
+  }
+
+  return { touched, deleted };
+}
+
+/**
+ * Read a file's post-change content, unless it's larger than the size cap
+ */
+async function readChangeFile(
+  root: string,
+  source: ContentSource,
+  repoPath: string,
+  changed: boolean,
+  maxFileSize: number
+): Promise<GitChangeFile> {
+  try {
+    const fullPath = path.join(root, repoPath);
+    const spec = source.kind === 'index' ? `:${repoPath}` : source.kind === 'revision' ? `${source.revision}:${repoPath}` : '';
+
+    const size = source.kind === 'worktree'
+      ? (await fs.stat(fullPath)).size
+      : Number((await runGit(['cat-file', '-s', spec], { cwd: root })).trim());
+    if (size > maxFileSize) {
+      return { path: repoPath, data: Buffer.alloc(0), size, changed, skipReason: sizeCapReason(size, maxFileSize) };
+    }
+
+    const data = source.kind === 'worktree' ? await fs.readFile(fullPath) : await runGitRaw(['show', spec], { cwd: root });
+    return { path: repoPath, data, size: data.length, changed };
+  } catch (error) {
+    logger.error(`Error reading ${repoPath}: ${(error as Error).message}`);
+    return { path: repoPath, data: Buffer.alloc(0), size: 0, changed, skipReason: `read error: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * List the tracked files directly inside a directory
+ */
+async function listDirectory(
+  git: (args: string[]) => Promise<string>,
+  root: string,
+  source: ContentSource,
+  directory: string
+): Promise<string[]> {
+  const pathspec = directory === '.' ? '.' : `${directory}/`;
+  let paths: string[];
+
+  if (source.kind === 'revision') {
+    // Entries look like "<mode> <type> <sha>\t<path>"
+    paths = (await git(['ls-tree', '-z', source.revision, '--', pathspec]))
+      .split('\0')
+      .filter(line => line.includes(' blob '))
+      .map(line => line.slice(line.indexOf('\t') + 1));
+  } else {
+    paths = (await git(['ls-files', '-z', '--', pathspec])).split('\0').filter(Boolean);
+
+    // Tracked files may have been deleted from the working tree without being staged
+    if (source.kind === 'worktree') {
+      paths = paths.filter(repoPath => existsSync(path.join(root, repoPath)));
+    }
+  }
+
+  return paths.filter(repoPath => path.posix.dirname(repoPath) === directory);
+}
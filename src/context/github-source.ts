@@ -0,0 +1,278 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { github, GitTreeEntry } from '../utils/github.js';
+import { DELEGATE_IGNORE_FILE, IgnoreMatcher } from './ignore.js';
+import { sizeCapReason } from './encoding.js';
+
+// Number of files fetched from GitHub at the same time
+const FETCH_CONCURRENCY = 8;
+
+// The contents API doesn't return content for files larger than this
+const CONTENTS_API_MAX_SIZE = 1024 * 1024;
+
+// Schema for a remote GitHub source of context files
+export const githubSourceSchema = z.object({
+  repo: z.string().describe('GitHub repository as owner/name or a github.com URL'),
+  ref: z.string().optional().describe('Branch, tag or commit SHA (defaults to the default branch)'),
+  paths: z.array(z.string()).optional().describe('Files or directories within the repository (defaults to the whole repository)'),
+});
+
+export type GitHubSource = z.infer<typeof githubSourceSchema>;
+
+// A file fetched from a remote repository
+export interface RemoteFile {
+  // Path within the repository
+  path: string;
+  // Raw bytes, decoded by the packager
+  data: Buffer;
+  size: number;
+  // Whether the file was requested explicitly rather than found in a directory
+  explicit: boolean;
+  // Why the file was skipped (not fetchable or over the size cap), if it was
+  skipReason?: string;
+}
+
+// Files fetched from a repository at a single commit
+export interface RemoteFiles {
+  owner: string;
+  repo: string;
+  sha: string;
+  files: RemoteFile[];
+  // Requested paths that don't exist at the commit
+  missing: string[];
+}
+
+// Decides whether a path found in a directory should be packaged
+export type RemotePathFilter = (repoPath: string, isDirectory: boolean) => boolean;
+
+/**
+ * Split a repository reference (`owner/name` or a github.com URL) into owner and name
+ */
+export function parseRepository(repository: string): { owner: string; repo: string } {
+  const match = repository
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?github\.com\//, '')
+    .replace(/\.git$/, '')
+    .replace(/\/+$/, '')
+    .match(/^([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+)$/);
+
+  if (!match) {
+    throw new Error(`Invalid GitHub repository: ${repository} (expected owner/name or a github.com URL)`);
+  }
+
+  return { owner: match[1], repo: match[2] };
+}
+
+/**
+ * Fetch files and directory trees from a GitHub repository.
+ *
+ * The ref is resolved to a commit SHA, then the tree listing and file
+ * contents are cached under `<tempDirectory>/github/<owner>/<repo>/<sha>`.
+ * A commit never changes, so later requests for the same commit (or a ref
+ * that still points at it) are served from the cache. The repository's own
+ * `.delegateignore` is applied to files found in directories, and files
+ * larger than `maxFileSize` aren't downloaded.
+ */
+export async function fetchGitHubSource(
+  source: GitHubSource,
+  filter: RemotePathFilter,
+  maxFileSize: number
+): Promise<RemoteFiles> {
+  const { owner, repo } = parseRepository(source.repo);
+  const cacheDirectory = (sha: string) =>
+    path.resolve(process.cwd(), config.get('tempDirectory'), 'github', owner, repo, sha);
+
+  // A full commit SHA can be served from the cache without touching the API
+  let sha = source.ref && /^[0-9a-f]{40}$/i.test(source.ref) ? source.ref.toLowerCase() : undefined;
+  let entries = sha ? await readCachedTree(cacheDirectory(sha)) : undefined;
+
+  if (!entries) {
+    const commit = await github.resolveCommit(owner, repo, source.ref || 'HEAD');
+    sha = commit.sha;
+    entries = await readCachedTree(cacheDirectory(sha));
+
+    if (!entries) {
+      entries = await listTree(owner, repo, commit.treeSha);
+      await writeCacheFile(cacheDirectory(sha), 'tree.json', JSON.stringify(entries));
+    } else {
+      logger.debug(`Using cached tree for ${owner}/${repo}@${sha}`);
+    }
+  }
+
+  const directory = cacheDirectory(sha!);
+  logger.info(`Packaging ${owner}/${repo} at ${sha}`);
+
+  const blobs = new Map(entries.filter(entry => entry.type === 'blob').map(entry => [entry.path, entry]));
+  const trees = new Set(entries.filter(entry => entry.type === 'tree').map(entry => entry.path));
+
+  // Apply the repository's .delegateignore, if it has one
+  let matcher: IgnoreMatcher | undefined;
+  if (blobs.has(DELEGATE_IGNORE_FILE)) {
+    const rules = await fetchFile(owner, repo, sha!, blobs.get(DELEGATE_IGNORE_FILE)!, directory);
+    matcher = IgnoreMatcher.fromRules('/', rules.toString('utf-8'));
+  }
+
+  const isIncluded = (repoPath: string): boolean => {
+    const segments = repoPath.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const partial = segments.slice(0, i).join('/');
+      const isDirectory = i < segments.length;
+      if (!filter(partial, isDirectory) || matcher?.isIgnored(`/${partial}`, isDirectory)) {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // Work out which blobs were asked for
+  const selected = new Map<string, { entry: GitTreeEntry; explicit: boolean }>();
+  const missing: string[] = [];
+
+  for (const requested of source.paths && source.paths.length > 0 ? source.paths : ['']) {
+    const repoPath = normalizeRepoPath(requested);
+
+    if (repoPath && blobs.has(repoPath)) {
+      if (!selected.has(repoPath)) {
+        selected.set(repoPath, { entry: blobs.get(repoPath)!, explicit: true });
+      }
+    } else if (!repoPath || trees.has(repoPath)) {
+      const prefix = repoPath ? `${repoPath}/` : '';
+      for (const [blobPath, entry] of blobs) {
+        if (blobPath.startsWith(prefix) && !selected.has(blobPath) && isIncluded(blobPath)) {
+          selected.set(blobPath, { entry, explicit: false });
+        }
+      }
+    } else {
+      missing.push(requested);
+    }
+  }
+
+  // Fetch file contents a few at a time
+  const pending = [...selected.values()];
+  const files: RemoteFile[] = [];
+
+  for (let i = 0; i < pending.length; i += FETCH_CONCURRENCY) {
+    files.push(...await Promise.all(pending.slice(i, i + FETCH_CONCURRENCY).map(async ({ entry, explicit }): Promise<RemoteFile> => {
+      if (entry.size !== undefined && entry.size > maxFileSize) {
+        return { path: entry.path, data: Buffer.alloc(0), size: entry.size, explicit, skipReason: sizeCapReason(entry.size, maxFileSize) };
+      }
+
+      try {
+        const data = await fetchFile(owner, repo, sha!, entry, directory);
+        return { path: entry.path, data, size: data.length, explicit };
+      } catch (error) {
+        logger.error(`Error fetching ${owner}/${repo}/${entry.path}: ${(error as Error).message}`);
+        return { path: entry.path, data: Buffer.alloc(0), size: 0, explicit, skipReason: `fetch error: ${(error as Error).message}` };
+      }
+    })));
+  }
+
+  return { owner, repo, sha: sha!, files, missing };
+}
+
+/**
+ * List every entry in a tree, walking it one level at a time if GitHub
+ * truncates the recursive listing
+ */
+async function listTree(owner: string, repo: string, treeSha: string): Promise<GitTreeEntry[]> {
+  const tree = await github.getTree(owner, repo, treeSha, true);
+  if (!tree.truncated) {
+    return tree.entries;
+  }
+
+  logger.warn(`Tree listing for ${owner}/${repo} was truncated; listing directories one at a time`);
+
+  const entries: GitTreeEntry[] = [];
+  const queue: Array<{ prefix: string; sha: string }> = [{ prefix: '', sha: treeSha }];
+
+  while (queue.length > 0) {
+    const { prefix, sha } = queue.shift()!;
+    const level = await github.getTree(owner, repo, sha, false);
+
+    for (const entry of level.entries) {
+      const fullPath = prefix + entry.path;
+      entries.push({ ...entry, path: fullPath });
+      if (entry.type === 'tree') {
+        queue.push({ prefix: `${fullPath}/`, sha: entry.sha });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Get a file's raw bytes from the cache, or from the contents API (falling
+ * back to the blob API for files too large for it) and cache it
+ */
+async function fetchFile(
+  owner: string,
+  repo: string,
+  sha: string,
+  entry: GitTreeEntry,
+  directory: string
+): Promise<Buffer> {
+  const cachePath = resolveCachePath(directory, path.join('files', entry.path));
+  if (existsSync(cachePath)) {
+    return fs.readFile(cachePath);
+  }
+
+  let data: Buffer;
+  if (entry.size !== undefined && entry.size > CONTENTS_API_MAX_SIZE) {
+    data = await github.getBlobData(owner, repo, entry.sha);
+  } else {
+    try {
+      data = await github.getFileData(owner, repo, entry.path, sha);
+    } catch (error) {
+      logger.debug(`Contents API failed for ${entry.path}, fetching blob: ${(error as Error).message}`);
+      data = await github.getBlobData(owner, repo, entry.sha);
+    }
+  }
+
+  await writeCacheFile(directory, path.join('files', entry.path), data);
+  return data;
+}
+
+async function readCachedTree(directory: string): Promise<GitTreeEntry[] | undefined> {
+  const treePath = path.join(directory, 'tree.json');
+  if (!existsSync(treePath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await fs.readFile(treePath, 'utf-8')) as GitTreeEntry[];
+  } catch (error) {
+    logger.warn(`Ignoring unreadable cached tree ${treePath}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+async function writeCacheFile(directory: string, relativePath: string, content: string | Buffer): Promise<void> {
+  const cachePath = resolveCachePath(directory, relativePath);
+  await fs.mkdir(path.dirname(cachePath), { recursive: true });
+  await fs.writeFile(cachePath, content);
+}
+
+// Keep cache writes inside the cache directory whatever the repository paths look like
+function resolveCachePath(directory: string, relativePath: string): string {
+  const resolved = path.resolve(directory, relativePath);
+  if (!resolved.startsWith(directory + path.sep)) {
+    throw new Error(`Invalid repository path: ${relativePath}`);
+  }
+  return resolved;
+}
+
+function normalizeRepoPath(repoPath: string): string {
+  const normalized = repoPath.replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+  if (normalized === '.') {
+    return '';
+  }
+  if (normalized.split('/').includes('..')) {
+    throw new Error(`Invalid repository path: ${repoPath}`);
+  }
+  return normalized;
+}
@@ -0,0 +1,152 @@
+import ignoreModule, { Ignore } from 'ignore';
+import { minimatch } from 'minimatch';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+
+// `ignore` is CommonJS; its factory is also exposed as `default`
+const ignore = ignoreModule.default;
+
+// Project-level ignore file for paths that should never be sent to a delegate model
+export const DELEGATE_IGNORE_FILE = '.delegateignore';
+
+// Rules loaded from one ignore file, relative to the directory that contains it
+interface IgnoreRuleSet {
+  base: string;
+  rules: Ignore;
+}
+
+/**
+ * Applies `.gitignore` semantics during directory traversal.
+ *
+ * Rule sets are kept from the outermost directory to the innermost, so a
+ * nested `.gitignore` can override (or negate) the rules of its parents, the
+ * same way git resolves them. The project's `.delegateignore` is applied
+ * after its root `.gitignore`.
+ */
+export class IgnoreMatcher {
+  private constructor(private ruleSets: IgnoreRuleSet[]) {}
+
+  /**
+   * Create a matcher for a directory, loading the ignore files of its project
+   * root and of every directory between the root and the directory itself
+   */
+  public static async forDirectory(dirPath: string): Promise<IgnoreMatcher> {
+    const root = findProjectRoot(dirPath);
+    const ruleSets: IgnoreRuleSet[] = [];
+
+    const rootGitignore = await loadRuleSet(root, '.gitignore');
+    const delegateIgnore = await loadRuleSet(root, DELEGATE_IGNORE_FILE);
+    if (rootGitignore) ruleSets.push(rootGitignore);
+    if (delegateIgnore) ruleSets.push(delegateIgnore);
+
+    let matcher = new IgnoreMatcher(ruleSets);
+    const relative = path.relative(root, dirPath);
+    let current = root;
+
+    for (const segment of relative ? relative.split(path.sep) : []) {
+      current = path.join(current, segment);
+      matcher = await matcher.descend(current);
+    }
+
+    return matcher;
+  }
+
+  /**
+   * Create a matcher from ignore rules that were loaded elsewhere, applying relative to `base`
+   */
+  public static fromRules(base: string, rules: string): IgnoreMatcher {
+    return new IgnoreMatcher([{ base, rules: ignore().add(rules) }]);
+  }
+
+  /**
+   * Return a matcher for a subdirectory, including its own `.gitignore` if it has one
+   */
+  public async descend(dirPath: string): Promise<IgnoreMatcher> {
+    const ruleSet = await loadRuleSet(dirPath, '.gitignore');
+    return ruleSet ? new IgnoreMatcher([...this.ruleSets, ruleSet]) : this;
+  }
+
+  /**
+   * Check whether a file or directory is ignored. The last rule set with a
+   * matching rule wins, so a nested negation re-includes a path.
+   */
+  public isIgnored(fullPath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const ruleSet of this.ruleSets) {
+      const relative = path.relative(ruleSet.base, fullPath);
+      if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        continue;
+      }
+
+      const result = ruleSet.rules.test(toPosixPath(relative) + (isDirectory ? '/' : ''));
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+
+    return ignored;
+  }
+}
+
+/**
+ * Check a path against per-call include and exclude globs. Patterns without a
+ * slash match the file name anywhere in the tree.
+ */
+export function matchesGlobs(filePath: string, globs: { include?: string[]; exclude?: string[] }): boolean {
+  const normalized = toPosixPath(path.normalize(filePath));
+  const matches = (pattern: string) => minimatch(normalized, pattern, { dot: true, matchBase: true });
+
+  if (globs.include && globs.include.length > 0 && !globs.include.some(matches)) {
+    return false;
+  }
+
+  return !(globs.exclude ?? []).some(matches);
+}
+
+/**
+ * Find the root of the project containing a directory: the nearest ancestor
+ * with a `.git` entry, falling back to the working directory (if the
+ * directory is inside it) or the directory itself
+ */
+function findProjectRoot(dirPath: string): string {
+  for (let current = dirPath; ; current = path.dirname(current)) {
+    if (existsSync(path.join(current, '.git'))) {
+      return current;
+    }
+    if (path.dirname(current) === current) {
+      break;
+    }
+  }
+
+  const cwd = process.cwd();
+  const relative = path.relative(cwd, dirPath);
+  return relative.startsWith('..') || path.isAbsolute(relative) ? dirPath : cwd;
+}
+
+/**
+ * Load an ignore file from a directory, or undefined if there isn't one
+ */
+async function loadRuleSet(dirPath: string, fileName: string): Promise<IgnoreRuleSet | undefined> {
+  const filePath = path.join(dirPath, fileName);
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    logger.debug(`Loaded ignore rules from ${filePath}`);
+    return { base: dirPath, rules: ignore().add(content) };
+  } catch (error) {
+    logger.warn(`Failed to read ignore file ${filePath}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
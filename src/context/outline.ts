@@ -0,0 +1,659 @@
+import { z } from 'zod';
+import path from 'path';
+import { matchesGlobs } from './ignore.js';
+import { detectLanguage } from './formatters.js';
+
+// How much of a file goes into the context: all of it, its outline or just its declared names
+export const detailLevels = ['full', 'outline', 'names'] as const;
+
+export type DetailLevel = typeof detailLevels[number];
+
+// Schema for a detail level for every file, or levels by path or glob pattern
+export const detailSchema = z.union([
+  z.enum(detailLevels),
+  z.record(z.string(), z.enum(detailLevels)),
+]);
+
+export type DetailSetting = z.infer<typeof detailSchema>;
+
+// A top-level piece of an outline
+interface OutlineItem {
+  // Source with bodies elided, preceded by its doc comment
+  text: string;
+  // Declared names, e.g. `function foo` (none for imports)
+  names: string[];
+  // Names of class members
+  members?: string[];
+}
+
+// Comment and string syntax of the supported languages
+type Syntax = 'js' | 'go' | 'python';
+
+// A statement spanning whole lines, with the comment block (or decorators) leading into it
+interface Span {
+  lead: number;
+  start: number;
+  end: number;
+}
+
+const ELIDED = '…';
+
+const outliners: Record<string, (source: string) => OutlineItem[]> = {
+  typescript: outlineJavaScript,
+  tsx: outlineJavaScript,
+  javascript: outlineJavaScript,
+  jsx: outlineJavaScript,
+  python: outlinePython,
+  go: outlineGo,
+};
+
+/**
+ * Work out the detail level for a file. With a map, every path or glob
+ * pattern that matches the file (a directory path matches everything
+ * inside it) applies in turn, so the last match wins; files that match
+ * nothing are packaged in full.
+ */
+export function detailLevelFor(filePath: string, detail?: DetailSetting): DetailLevel {
+  if (detail === undefined || typeof detail === 'string') {
+    return detail ?? 'full';
+  }
+
+  const normalized = normalizePath(filePath);
+  let level: DetailLevel = 'full';
+
+  for (const [pattern, patternLevel] of Object.entries(detail)) {
+    const prefix = normalizePath(pattern);
+    if (normalized === prefix || normalized.startsWith(`${prefix}/`) || matchesGlobs(normalized, { include: [pattern] })) {
+      level = patternLevel;
+    }
+  }
+
+  return level;
+}
+
+/**
+ * Reduce a file to its outline (imports, exported declarations with their
+ * signatures and doc comments, bodies elided) or to its declared names.
+ * Returns undefined for languages without an outliner, which are packaged
+ * in full.
+ */
+export function outlineFile(filePath: string, content: string, level: DetailLevel): string | undefined {
+  if (level === 'full') {
+    return content;
+  }
+
+  const outliner = outliners[detectLanguage(filePath)];
+  if (!outliner) {
+    return undefined;
+  }
+
+  const items = outliner(content);
+
+  if (level === 'names') {
+    return items
+      .flatMap(item => [...item.names, ...(item.members ?? []).map(member => `  ${member}`)])
+      .map(line => `${line}\n`)
+      .join('');
+  }
+
+  // Imports stay together; declarations are separated by a blank line
+  return items
+    .map((item, index) => {
+      const separator = index === 0 ? '' : item.names.length === 0 && items[index - 1].names.length === 0 ? '\n' : '\n\n';
+      return separator + item.text;
+    })
+    .join('') + (items.length > 0 ? '\n' : '');
+}
+
+/**
+ * TypeScript and JavaScript: imports and exported declarations. Functions
+ * and namespaces keep their signatures, classes their non-private members,
+ * and types, interfaces and enums are kept whole.
+ */
+function outlineJavaScript(source: string): OutlineItem[] {
+  const lines = source.split('\n');
+  const masked = maskLiterals(source, 'js').split('\n');
+  const items: OutlineItem[] = [];
+
+  for (const span of splitStatements(lines, masked, 0, lines.length)) {
+    const code = joinLines(masked, span.start, span.end).trim();
+
+    if (/^import\b(?!\s*[(.])/.test(code)) {
+      items.push({ text: joinLines(lines, span.start, span.end), names: [] });
+      continue;
+    }
+    if (!/^(export\b|module\.exports\b|exports\.)/.test(code)) {
+      continue;
+    }
+
+    const lead = leadingComment(lines, span);
+    const declaration = code.match(
+      /^export\s+(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\s*\*?|class|interface|type|const\s+enum|enum|const|let|var|namespace|module)\s*([A-Za-z_$][\w$]*)?/
+    );
+
+    if (!declaration) {
+      // Re-exports, default expressions and CommonJS exports
+      items.push({ text: lead + outlineValue(lines, masked, span), names: [] });
+      continue;
+    }
+
+    const kind = declaration[1].replace(/\s*\*?\s*$/, '').replace(/^const\s+enum$/, 'enum');
+    const name = `${kind} ${declaration[2] ?? 'default'}`;
+
+    if (kind === 'class') {
+      const { text, members } = outlineClass(lines, masked, span);
+      items.push({ text: lead + text, names: [name], members });
+    } else if (kind === 'interface' || kind === 'type' || kind === 'enum') {
+      items.push({ text: lead + joinLines(lines, span.start, span.end), names: [name] });
+    } else if (kind === 'const' || kind === 'let' || kind === 'var') {
+      items.push({ text: lead + outlineValue(lines, masked, span), names: [name] });
+    } else {
+      items.push({ text: lead + elideBody(lines, masked, span), names: [name] });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * A class header and its public and protected members, with method bodies elided
+ */
+function outlineClass(lines: string[], masked: string[], span: Span): { text: string; members: string[] } {
+  const open = findBodyOpening(masked, span);
+  if (!open || open.line === span.end) {
+    return { text: elideBody(lines, masked, span), members: [] };
+  }
+
+  const parts = [joinLines(lines, span.start, open.line - 1, lines[open.line].slice(0, open.column + 1))];
+  const members: string[] = [];
+
+  for (const member of splitStatements(lines, masked, open.line + 1, span.end)) {
+    const code = joinLines(masked, member.start, member.end).trim();
+    if (/^(?:(?:public|protected|static|readonly|override|abstract|declare|async|accessor)\s+)*(?:private\b|#)/.test(code)) {
+      continue;
+    }
+
+    // Documented members get a blank line before them, as they usually have in the source
+    const lead = leadingComment(lines, member);
+    const separator = lead && parts.length > 1 ? '\n' : '';
+    parts.push(separator + lead + (code.endsWith('}') ? elideBody(lines, masked, member) : outlineValue(lines, masked, member)));
+
+    const name = code.match(
+      /^(?:(?:public|protected|static|readonly|override|abstract|declare|async|accessor)\s+)*(?:(get|set)\s+)?(?:\*\s*)?([A-Za-z_$][\w$]*|\[[^\]]*\])\??\s*(?:<[^(]*>)?\s*(\()?/
+    );
+    if (name) {
+      members.push(`${name[1] ? `${name[1]} ` : ''}${name[2]}${name[3] ? '()' : ''}`);
+    }
+  }
+
+  parts.push(lines[span.end]);
+  return { text: parts.join('\n'), members };
+}
+
+/**
+ * Go: the package clause, imports and exported functions, methods, types,
+ * constants and variables
+ */
+function outlineGo(source: string): OutlineItem[] {
+  const lines = source.split('\n');
+  const masked = maskLiterals(source, 'go').split('\n');
+  const items: OutlineItem[] = [];
+  const isExported = (name: string) => /^[A-Z]/.test(name);
+
+  for (const span of splitStatements(lines, masked, 0, lines.length)) {
+    const code = joinLines(masked, span.start, span.end).trim();
+    const lead = leadingComment(lines, span);
+
+    if (/^(package|import)\b/.test(code)) {
+      items.push({ text: lead + joinLines(lines, span.start, span.end), names: [] });
+      continue;
+    }
+
+    const func = code.match(/^func\s*(\([^)]*\)\s*)?([A-Za-z_]\w*)/);
+    if (func) {
+      if (isExported(func[2])) {
+        items.push({ text: lead + elideBody(lines, masked, span), names: [`func ${func[1] ?? ''}${func[2]}`] });
+      }
+      continue;
+    }
+
+    const group = code.match(/^(type|const|var)\s*\(/);
+    if (group) {
+      // Keep a group whole if it declares anything exported
+      const names = masked
+        .slice(span.start + 1, span.end)
+        .map(line => line.match(/^\s+([A-Za-z_]\w*)/)?.[1])
+        .filter((name): name is string => name !== undefined && isExported(name))
+        .map(name => `${group[1]} ${name}`);
+      if (names.length > 0) {
+        items.push({ text: lead + joinLines(lines, span.start, span.end), names });
+      }
+      continue;
+    }
+
+    const single = code.match(/^(type|const|var)\s+([A-Za-z_]\w*)/);
+    if (single && isExported(single[2])) {
+      const text = single[1] === 'type' ? joinLines(lines, span.start, span.end) : outlineValue(lines, masked, span);
+      items.push({ text: lead + text, names: [`${single[1]} ${single[2]}`] });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Python: imports, public functions and classes (with docstrings, bodies
+ * elided), public methods of those classes and public module-level assignments
+ */
+function outlinePython(source: string): OutlineItem[] {
+  const lines = source.split('\n');
+  const masked = maskLiterals(source, 'python').split('\n');
+  const items: OutlineItem[] = [];
+
+  for (const statement of splitPythonStatements(lines, masked, 0, lines.length)) {
+    const code = joinLines(masked, statement.start, statement.headerEnd).trim();
+    const header = joinLines(lines, statement.lead, statement.headerEnd);
+
+    if (/^(import|from)\s/.test(code)) {
+      items.push({ text: header, names: [] });
+      continue;
+    }
+
+    const definition = code.match(/^(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/);
+    if (definition) {
+      if (!definition[2].startsWith('_')) {
+        const { text, members } = outlinePythonDefinition(lines, masked, statement, source);
+        items.push({ text, names: [`${definition[1]} ${definition[2]}`], members });
+      }
+      continue;
+    }
+
+    const assignment = code.match(/^([A-Za-z_]\w*)\s*(?::[^=]*)?=(?!=)/);
+    if (assignment && (!assignment[1].startsWith('_') || assignment[1] === '__all__')) {
+      const text = statement.headerEnd === statement.start
+        ? header
+        : `${lines[statement.start].slice(0, masked[statement.start].indexOf('=') + 1)} ...`;
+      items.push({ text, names: [assignment[1]] });
+    }
+  }
+
+  return items;
+}
+
+// A Python statement: leading comments and decorators, header lines and (for compound statements) the body
+interface PythonStatement extends Span {
+  headerEnd: number;
+}
+
+/**
+ * A function or class with its docstring kept and its body replaced by
+ * `...`, or for classes, by the outlines of its public methods and attributes
+ */
+function outlinePythonDefinition(
+  lines: string[],
+  masked: string[],
+  statement: PythonStatement,
+  source: string
+): { text: string; members: string[] } {
+  const parts = [joinLines(lines, statement.lead, statement.headerEnd)];
+  const members: string[] = [];
+  const isClass = /^\s*class\b/.test(masked[statement.start]);
+
+  let bodyStart = statement.headerEnd + 1;
+  while (bodyStart <= statement.end && !lines[bodyStart].trim()) {
+    bodyStart++;
+  }
+  if (bodyStart > statement.end) {
+    return { text: parts[0], members };
+  }
+  const indent = lines[bodyStart].match(/^\s*/)![0];
+
+  // Docstring
+  if (/^[rRuUbBfF]{0,2}("|')/.test(lines[bodyStart].trim())) {
+    const offset = lineOffset(lines, bodyStart) + lines[bodyStart].indexOf(lines[bodyStart].trim());
+    const docEnd = lineAt(source, literalEnd(source, offset, 'python') - 1);
+    parts.push(joinLines(lines, bodyStart, docEnd));
+    bodyStart = docEnd + 1;
+  }
+
+  if (isClass) {
+    for (const member of splitPythonStatements(lines, masked, bodyStart, statement.end + 1)) {
+      const code = joinLines(masked, member.start, member.headerEnd).trim();
+      const definition = code.match(/^(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/);
+      const assignment = code.match(/^([A-Za-z_]\w*)\s*(?::[^=]*)?=(?!=)|^([A-Za-z_]\w*)\s*:/);
+
+      if (definition && (!definition[2].startsWith('_') || /^__\w+__$/.test(definition[2]))) {
+        const separator = parts.length > 1 ? '\n' : '';
+        parts.push(separator + outlinePythonDefinition(lines, masked, member, source).text);
+        members.push(`${definition[1]} ${definition[2]}`);
+      } else if (!definition && assignment && !(assignment[1] ?? assignment[2]).startsWith('_')) {
+        parts.push(member.headerEnd === member.start ? joinLines(lines, member.lead, member.start) : `${lines[member.start]} ...`);
+        members.push(assignment[1] ?? assignment[2]);
+      }
+    }
+  }
+
+  if (!isClass || members.length === 0) {
+    parts.push(`${indent}...`);
+  }
+
+  return { text: parts.join('\n'), members };
+}
+
+/**
+ * Split lines into Python statements at one indentation level
+ */
+function splitPythonStatements(lines: string[], masked: string[], lo: number, hi: number): PythonStatement[] {
+  const statements: PythonStatement[] = [];
+  const indentOf = (line: number) => lines[line].match(/^\s*/)![0].length;
+  let lead: number | undefined;
+
+  for (let i = lo; i < hi; i++) {
+    if (!masked[i].trim()) {
+      // Comment lines lead into the next statement; blank lines break the chain
+      lead = lines[i].trim().startsWith('#') ? lead ?? i : undefined;
+      continue;
+    }
+
+    const start = i;
+    const indent = indentOf(i);
+
+    // A logical line continues while brackets are open or the line ends with a backslash
+    let depth = bracketDelta(masked[i]);
+    while (i + 1 < hi && (depth > 0 || masked[i].trimEnd().endsWith('\\'))) {
+      depth += bracketDelta(masked[++i]);
+    }
+    const headerEnd = i;
+
+    // Decorators lead into the definition that follows
+    if (masked[start].trim().startsWith('@')) {
+      lead = lead ?? start;
+      continue;
+    }
+
+    // The body of a compound statement is everything indented further
+    let end = headerEnd;
+    if (masked[headerEnd].trimEnd().endsWith(':')) {
+      for (let next = headerEnd + 1; next < hi; next++) {
+        if (masked[next].trim()) {
+          if (indentOf(next) <= indent) {
+            break;
+          }
+          end = next;
+        }
+      }
+    }
+
+    statements.push({ lead: lead ?? start, start, headerEnd, end });
+    lead = undefined;
+    i = end;
+  }
+
+  return statements;
+}
+
+/**
+ * Split lines of a brace language into top-level statements. A statement
+ * ends at a line where all brackets are closed, unless the line (or the
+ * next one) shows that the expression carries on.
+ */
+function splitStatements(lines: string[], masked: string[], lo: number, hi: number): Span[] {
+  const spans: Span[] = [];
+  let lead: number | undefined;
+
+  for (let i = lo; i < hi; i++) {
+    if (!masked[i].trim()) {
+      // Comment lines lead into the next statement; blank lines break the chain
+      lead = lines[i].trim() ? lead ?? i : undefined;
+      continue;
+    }
+
+    const start = i;
+    let depth = bracketDelta(masked[i]);
+    while (i + 1 < hi && (depth > 0 || continuesStatement(masked, i, hi))) {
+      depth += bracketDelta(masked[++i]);
+    }
+
+    spans.push({ lead: lead ?? start, start, end: i });
+    lead = undefined;
+  }
+
+  return spans;
+}
+
+function continuesStatement(masked: string[], line: number, hi: number): boolean {
+  if (/(=>|[=,([{|&+\-*/?:.!<])$/.test(masked[line].trimEnd())) {
+    return true;
+  }
+
+  for (let next = line + 1; next < hi; next++) {
+    const code = masked[next].trim();
+    if (code) {
+      return /^(\.|\?|\||&|:|=>|extends\b|implements\b)/.test(code);
+    }
+  }
+  return false;
+}
+
+/**
+ * Replace the body braces that close a statement with `{ … }`
+ */
+function elideBody(lines: string[], masked: string[], span: Span): string {
+  const open = findBodyOpening(masked, span);
+  if (!open) {
+    return joinLines(lines, span.start, span.end);
+  }
+
+  const close = masked[span.end].lastIndexOf('}');
+  const head = joinLines(lines, span.start, open.line - 1, lines[open.line].slice(0, open.column).trimEnd());
+  return `${head} { ${ELIDED} }${lines[span.end].slice(close + 1)}`;
+}
+
+/**
+ * A declaration with a value: kept whole on one line, otherwise with the
+ * value's closing body elided or the value cut after `=`
+ */
+function outlineValue(lines: string[], masked: string[], span: Span): string {
+  if (span.start === span.end) {
+    return lines[span.start];
+  }
+  if (/}\s*;?$/.test(masked[span.end].trimEnd())) {
+    return elideBody(lines, masked, span);
+  }
+
+  const assignment = masked[span.start].search(/(?<![=!<>])=(?![=>])/);
+  return assignment === -1
+    ? `${lines[span.start]} ${ELIDED}`
+    : `${lines[span.start].slice(0, assignment + 1)} ${ELIDED}`;
+}
+
+/**
+ * Find the `{` matching the last `}` of a statement
+ */
+function findBodyOpening(masked: string[], span: Span): { line: number; column: number } | undefined {
+  const close = masked[span.end].lastIndexOf('}');
+  if (close === -1) {
+    return undefined;
+  }
+
+  let depth = 0;
+  for (let line = span.end; line >= span.start; line--) {
+    const text = masked[line];
+    for (let column = line === span.end ? close : text.length - 1; column >= 0; column--) {
+      if (text[column] === '}') {
+        depth++;
+      } else if (text[column] === '{' && --depth === 0) {
+        return { line, column };
+      }
+    }
+  }
+  return undefined;
+}
+
+function bracketDelta(line: string): number {
+  let delta = 0;
+  for (const char of line) {
+    if (char === '{' || char === '(' || char === '[') delta++;
+    else if (char === '}' || char === ')' || char === ']') delta--;
+  }
+  return delta;
+}
+
+/**
+ * Blank out comments and string literals (keeping line breaks) so brackets
+ * and keywords can be found without tripping over them
+ */
+function maskLiterals(source: string, syntax: Syntax): string {
+  const chars = source.split('');
+  let previous = '';
+
+  for (let i = 0; i < source.length;) {
+    const regexAllowed = syntax === 'js' && (previous === '' || '(,=:[!&|?{};+-*%<>~^'.includes(previous));
+    const end = literalEnd(source, i, syntax, regexAllowed);
+
+    if (end > i) {
+      for (let j = i; j < end; j++) {
+        if (chars[j] !== '\n') chars[j] = ' ';
+      }
+      i = end;
+    } else {
+      if (!/\s/.test(source[i])) previous = source[i];
+      i++;
+    }
+  }
+
+  return chars.join('');
+}
+
+/**
+ * End of the comment or string literal starting at `i`, or `i` if none does
+ */
+function literalEnd(source: string, i: number, syntax: Syntax, regexAllowed = false): number {
+  const char = source[i];
+  const next = source[i + 1];
+
+  if (syntax === 'python') {
+    if (char === '#') {
+      return lineEnd(source, i);
+    }
+    if (char === '"' || char === "'") {
+      const triple = source.startsWith(char.repeat(3), i);
+      return quotedEnd(source, i, triple ? char.repeat(3) : char, !triple);
+    }
+    return i;
+  }
+
+  if (char === '/' && next === '/') {
+    return lineEnd(source, i);
+  }
+  if (char === '/' && next === '*') {
+    const end = source.indexOf('*/', i + 2);
+    return end === -1 ? source.length : end + 2;
+  }
+  if (char === '"' || char === "'") {
+    return quotedEnd(source, i, char, true);
+  }
+  if (char === '`') {
+    return syntax === 'go' ? quotedEnd(source, i, '`', false, false) : templateEnd(source, i);
+  }
+  if (char === '/' && regexAllowed) {
+    return regexEnd(source, i);
+  }
+  return i;
+}
+
+function quotedEnd(source: string, i: number, quote: string, singleLine: boolean, escapes = true): number {
+  for (let j = i + quote.length; j < source.length; j++) {
+    if (escapes && source[j] === '\\') {
+      j++;
+    } else if (source.startsWith(quote, j)) {
+      return j + quote.length;
+    } else if (singleLine && source[j] === '\n') {
+      return j;
+    }
+  }
+  return source.length;
+}
+
+// Template literals, skipping over `${...}` expressions (which may contain more literals)
+function templateEnd(source: string, i: number): number {
+  for (let j = i + 1; j < source.length; j++) {
+    if (source[j] === '\\') {
+      j++;
+    } else if (source[j] === '`') {
+      return j + 1;
+    } else if (source[j] === '$' && source[j + 1] === '{') {
+      let depth = 1;
+      for (j += 2; j < source.length && depth > 0;) {
+        const end = literalEnd(source, j, 'js');
+        if (end > j) {
+          j = end;
+          continue;
+        }
+        if (source[j] === '{') depth++;
+        else if (source[j] === '}') depth--;
+        j++;
+      }
+      j--;
+    }
+  }
+  return source.length;
+}
+
+// Regular expression literals; a `/` that doesn't close on the same line is division after all
+function regexEnd(source: string, i: number): number {
+  let inClass = false;
+  for (let j = i + 1; j < source.length; j++) {
+    const char = source[j];
+    if (char === '\\') {
+      j++;
+    } else if (char === '\n') {
+      return i;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === ']') {
+      inClass = false;
+    } else if (char === '/' && !inClass) {
+      for (j++; j < source.length && /[a-z]/i.test(source[j]); j++);
+      return j;
+    }
+  }
+  return i;
+}
+
+function lineEnd(source: string, i: number): number {
+  const end = source.indexOf('\n', i);
+  return end === -1 ? source.length : end;
+}
+
+function lineOffset(lines: string[], line: number): number {
+  let offset = 0;
+  for (let i = 0; i < line; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset;
+}
+
+function lineAt(source: string, offset: number): number {
+  let line = 0;
+  for (let i = source.indexOf('\n'); i !== -1 && i < offset; i = source.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+/**
+ * Join lines `from` to `to` (inclusive), followed by any extra text
+ */
+function joinLines(lines: string[], from: number, to: number, ...extra: string[]): string {
+  return [...lines.slice(from, to + 1), ...extra].join('\n');
+}
+
+// The comment block leading into a statement, with its line break
+function leadingComment(lines: string[], span: Span): string {
+  return span.lead < span.start ? `${joinLines(lines, span.lead, span.start - 1)}\n` : '';
+}
+
+function normalizePath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\.\//, '').replace(/\/+$/, '');
+}
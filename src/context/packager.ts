@@ -1,44 +1,116 @@
 import { z } from 'zod';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
-import { countTokens } from '../utils/token-counter.js';
+import { countTokens, countTokensForModel, selectTokenCountingStrategy, TokenCountingStrategy } from '../utils/token-counter.js';
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
-import { github } from '../utils/github.js';
+import { createStorageBackend, StorageBackend, storageBackendTypes, StorageBackendType, StoredContent } from '../storage/index.js';
+import { IgnoreMatcher, matchesGlobs } from './ignore.js';
+import { fetchGitHubSource, GitHubSource, githubSourceSchema } from './github-source.js';
+import { collectGitChanges, GitSelection, hasGitSelection } from './git-selection.js';
+import { redactionModes, RedactionReport, Redactor } from './redaction.js';
+import { decodeText, sizeCapReason } from './encoding.js';
+import { DetailLevel, detailLevelFor, detailSchema, DetailSetting, outlineFile } from './outline.js';
+import { CachedSegment, contentHash, contextCache } from './cache.js';
+import {
+  contextFormats,
+  ContextFormat,
+  ContextFileEntry,
+  ContextFormatter,
+  ContextManifest,
+  ContextNotice,
+  detectLanguage,
+  getContextFormatter,
+} from './formatters.js';
+
+export type { ContextFormat, ContextManifest, ManifestEntry } from './formatters.js';
+export type { RedactionFinding, RedactionReport } from './redaction.js';
 import crypto from 'crypto';
 
 // Schema for context preparation options
 export const contextOptionsSchema = z.object({
   paths: z.array(z.string()).describe('Array of file or directory paths to include'),
+  source: githubSourceSchema.optional().describe('GitHub repository, ref and paths to package instead of (or as well as) local paths'),
+  diff: z.string().optional().describe('Package the changes in a revision range of the local repository, e.g. main...HEAD'),
+  staged: z.boolean().optional().describe('Package the changes staged in the local repository'),
+  commit: z.string().optional().describe('Package the changes made by a commit in the local repository'),
+  surrounding: z.boolean().optional().describe('With diff, staged or commit, also include unchanged files in the directories of the changed files'),
   comment: z.string().optional().describe('Comment to append to the end of the context'),
+  include: z.array(z.string()).optional().describe('Glob patterns; only files found in directories that match one are included'),
+  exclude: z.array(z.string()).optional().describe('Glob patterns for files found in directories to leave out'),
+  maxFileSize: z.number().int().positive().optional().describe('Skip files larger than this many bytes (defaults to MAX_FILE_SIZE)'),
+  detail: detailSchema.optional().describe('Detail level (full, outline or names) for every file, or a map of paths and glob patterns to levels; the last matching entry wins'),
+  maxContextTokens: z.number().int().positive().optional().describe('Token budget for the packaged context; lower-priority files that do not fit are omitted'),
+  model: z.string().optional().describe('Model the context is prepared for; selects the token counting strategy'),
+  outputFormat: z.enum(contextFormats).optional().describe('Format of the packaged context (text, xml, json or markdown)'),
+  redaction: z.enum(redactionModes).optional().describe('How detected secrets are handled: redact (replace with placeholders), strict (fail) or off'),
+  redactionAllowlist: z.array(z.string()).optional().describe('Regular expressions for detected values that are not secrets and may be kept'),
   owner: z.string().optional().describe('GitHub repository owner'),
   repo: z.string().optional().describe('GitHub repository name'),
   branch: z.string().optional().describe('GitHub repository branch'),
   outputPath: z.string().optional().describe('Path where output should be saved locally'),
-  githubPath: z.string().optional().describe('Path in the GitHub repository to save the file'),
+  storage: z.enum(storageBackendTypes).optional().describe('Storage backend for the context (github, local, git or ephemeral)'),
+  storagePath: z.string().optional().describe('Path in the storage backend to save the file'),
+  githubPath: z.string().optional().describe('Deprecated alias for storagePath'),
+  reuse: z.boolean().optional().describe('Reference an identical context stored earlier instead of saving another copy (defaults to true unless storagePath is given)'),
 });
 
 export type ContextOptions = z.infer<typeof contextOptionsSchema>;
 
+// A file read from disk, ready to be packaged
+interface ContextFile {
+  path: string;
+  content: string;
+  size: number;
+  mtimeMs: number;
+  // Whether the file was listed explicitly rather than found in a directory
+  explicit: boolean;
+  // Why the file was skipped (unreadable, binary or over the size cap), if it was
+  skipReason?: string;
+  // Set when the content was reduced to an outline or its names
+  detail?: DetailLevel;
+  // Hash of the raw bytes, for local files that can be cached
+  hash?: string;
+  // Packaged form of the file reused from the context cache
+  segment?: CachedSegment;
+}
+
+// Result of preparing a context
+export interface ContextResult {
+  content: string;
+  path: string | null;
+  storage?: StorageBackendType;
+  format?: ContextFormat;
+  // Remote repository and commit the context was packaged from, if any
+  source?: { repo: string; sha: string };
+  success: boolean;
+  message: string;
+  tokenCount?: number;
+  tokenStrategy?: TokenCountingStrategy;
+  manifest?: ContextManifest;
+  redactionReport?: RedactionReport;
+  // Whether an identical context stored earlier was referenced instead of saving a new copy
+  reused?: boolean;
+  // Local files packaged from the context cache without being read
+  cachedFiles?: number;
+}
+
 /**
  * Main function to prepare context from file paths
  * 
  * This function handles the context preparation pipeline:
  * 1. Read all specified files and directories
- * 2. Concatenate content with file paths as headers
- * 3. Add comment if provided
- * 4. Save the output to local file and/or GitHub repository
+ * 2. Rank files and fill the token budget, if one is given
+ * 3. Render the files, preceded by a manifest, in the requested output format
+ * 4. Add comment if provided
+ * 5. Save the output to local file and/or the selected storage backend,
+ *    unless an identical context was already stored there
+ * @param signal Aborts counting tokens with the model's provider
  */
-export async function prepareContext(options: ContextOptions): Promise<{
-  content: string;
-  path: string;
-  success: boolean;
-  message: string;
-  tokenCount?: number;
-}> {
+export async function prepareContext(options: ContextOptions, signal?: AbortSignal): Promise<ContextResult> {
   logger.section('Preparing Context');
-  logger.info(`Processing paths: ${options.paths.join(', ')}`);
+  logger.info(`Processing paths: ${describeInputs(options)}`);
   
   // Validate input options
   try {
@@ -47,28 +119,50 @@ export async function prepareContext(options: ContextOptions): Promise<{
     logger.error('Invalid options:', error);
     return {
       content: '',
-      path: '',
+      path: null,
       success: false,
       message: `Invalid options: ${(error as Error).message}`,
     };
   }
   
   try {
-    // Set GitHub defaults from environment if not provided
-    const owner = options.owner || config.get('defaultOwner');
-    const repo = options.repo || config.get('defaultRepo');
-    const branch = options.branch || config.get('defaultBranch');
+    // Resolve the storage backend before doing any work so misconfiguration fails fast
+    const storage = createStorageBackend(options.storage, {
+      owner: options.owner,
+      repo: options.repo,
+      branch: options.branch,
+    });
     
-    if (!owner || !repo) {
-      throw new Error('Repository owner and name are required. Provide them as parameters or set OWNER and REPO environment variables.');
-    }
+    const model = options.model || config.get('defaultModel');
+    const formatter = getContextFormatter(options.outputFormat);
+    
+    const redactor = new Redactor(
+      options.redaction ?? config.get('redactionMode'),
+      [...config.get('redactionAllowlist'), ...(options.redactionAllowlist ?? [])]
+    );
     
     // Read and concatenate files
-    const contextContent = await readAndConcatenateFiles(options.paths, options.comment);
+    const { content: contextContent, manifest, source, cachedFiles } = await readAndConcatenateFiles(options.paths, formatter, redactor, {
+      source: options.source,
+      git: {
+        diff: options.diff,
+        staged: options.staged,
+        commit: options.commit,
+        surrounding: options.surrounding,
+      },
+      comment: options.comment,
+      maxContextTokens: options.maxContextTokens,
+      strategy: selectTokenCountingStrategy(model),
+      include: options.include,
+      exclude: options.exclude,
+      maxFileSize: options.maxFileSize ?? config.get('maxFileSize'),
+      detail: options.detail,
+      cache: config.get('contextCache'),
+    });
     
-    // Count tokens
-    const tokenCount = countTokens(contextContent);
-    logger.info(`Estimated token count: ${tokenCount}`);
+    // Count tokens for the target model
+    const { count: tokenCount, strategy: tokenStrategy } = await countTokensForModel(contextContent, model, signal);
+    logger.info(`Estimated token count: ${tokenCount} (${tokenStrategy})`);
     
     // Save to local file if requested
     if (options.outputPath) {
@@ -78,32 +172,58 @@ export async function prepareContext(options: ContextOptions): Promise<{
       logger.success(`Context saved locally to: ${outputPath}`);
     }
     
-    // Generate a default GitHub path if not provided
-    const githubPath = options.githubPath || generateDefaultGithubPath();
+    // Generate a default storage path if not provided
+    const storagePath = options.storagePath || options.githubPath || generateDefaultStoragePath(formatter.extension);
     
-    // Save to GitHub
-    await github.saveContentToRepo(
-      owner,
-      repo,
-      githubPath,
-      contextContent,
-      `Context from ${options.paths.join(', ')}${options.comment ? ' with comment' : ''}`
-    );
+    // Reference an identical context stored earlier, or save to the storage backend
+    const hash = contentHash(contextContent);
+    const backendKey = `${storage.name}:${options.owner ?? ''}/${options.repo ?? ''}@${options.branch ?? ''}`;
+    const reuse = config.get('contextCache') && storage.persistent && (options.reuse ?? !(options.storagePath || options.githubPath));
     
-    logger.success(`Context saved to GitHub: ${owner}/${repo}/${githubPath}`);
+    let stored = reuse ? await findStoredContext(storage, backendKey, hash) : undefined;
+    const reused = stored !== undefined;
+    
+    if (stored) {
+      logger.success(`Context unchanged, reusing ${storage.name} storage: ${stored.location}`);
+    } else {
+      stored = await storage.save(
+        storagePath,
+        contextContent,
+        `Context from ${describeInputs(options, source)}${options.comment ? ' with comment' : ''}`
+      );
+      
+      if (stored.location) {
+        logger.success(`Context saved to ${storage.name} storage: ${stored.location}`);
+      }
+      if (config.get('contextCache') && storage.persistent) {
+        contextCache.recordStored(backendKey, hash, stored);
+      }
+    }
+    contextCache.flush();
     
     return {
       content: contextContent,
-      path: `https://github.com/${owner}/${repo}/blob/${branch}/${githubPath}`,
+      path: stored.location,
+      storage: storage.name,
+      format: formatter.format,
+      source,
       success: true,
-      message: `Context prepared successfully from ${options.paths.length} paths with approximately ${tokenCount} tokens.`,
+      message: `Context prepared successfully from ${describeInputs(options, source)} with approximately ${tokenCount} tokens ` +
+               `(${manifest.included.length} files included, ${manifest.omitted.length} omitted` +
+               (cachedFiles > 0 ? `, ${cachedFiles} from cache` : '') + ').' +
+               (reused ? ' An identical context was already stored, so it was reused.' : ''),
       tokenCount,
+      tokenStrategy,
+      manifest,
+      redactionReport: redactor.getReport(),
+      reused,
+      cachedFiles,
     };
   } catch (error) {
     logger.error(`Failed to prepare context: ${(error as Error).message}`);
     return {
       content: '',
-      path: '',
+      path: null,
       success: false,
       message: `Failed to prepare context: ${(error as Error).message}`,
     };
@@ -111,10 +231,106 @@ export async function prepareContext(options: ContextOptions): Promise<{
 }
 
 /**
- * Read and concatenate files from specified paths
+ * Read files from specified paths and render them with the given formatter.
+ *
+ * Files are ranked deterministically: explicitly listed files first in the
+ * order given, then directory files by most recently modified, smallest
+ * first and finally by path. With a token budget, files are added in that
+ * order until the budget is spent and the rest are listed as omitted.
+ *
+ * Directories are traversed with `.gitignore` and `.delegateignore` rules
+ * and the include/exclude globs applied; explicitly listed files are
+ * always read. Files from a GitHub source are labelled `owner/repo/path`.
+ *
+ * Content is sniffed rather than trusted to its extension: binary files and
+ * files over the size cap are listed as omitted with the reason, and UTF-16
+ * and Latin-1 text is transcoded to UTF-8.
+ *
+ * Files given an `outline` or `names` detail level are reduced before they
+ * are measured, so a skeleton of a whole repository can share the budget
+ * with a few files in full.
+ *
+ * With `cache`, local files whose mtime and size are unchanged (or whose
+ * content hash matches) are packaged from the context cache without being
+ * read, redacted or measured again.
+ *
+ * A git selection comes first: its unified diff, then the post-change
+ * content of each changed file, then any surrounding files.
+ *
+ * Every file passes through the redactor before it is measured, so token
+ * counts reflect the redacted content. In strict mode detected secrets
+ * abort packaging instead.
  */
-async function readAndConcatenateFiles(filePaths: string[], comment?: string): Promise<string> {
-  let result = '';
+async function readAndConcatenateFiles(
+  filePaths: string[],
+  formatter: ContextFormatter,
+  redactor: Redactor,
+  options: {
+    source?: GitHubSource;
+    git?: GitSelection;
+    comment?: string;
+    maxContextTokens?: number;
+    strategy?: TokenCountingStrategy;
+    include?: string[];
+    exclude?: string[];
+    maxFileSize?: number;
+    detail?: DetailSetting;
+    cache?: boolean;
+  } = {}
+): Promise<{ content: string; manifest: ContextManifest; source?: { repo: string; sha: string }; cachedFiles: number }> {
+  const files: ContextFile[] = [];
+  const notices: ContextNotice[] = [];
+  let source: { repo: string; sha: string } | undefined;
+  const maxFileSize = options.maxFileSize ?? config.get('maxFileSize');
+  
+  // Everything that affects how a local file is packaged, so cached segments are only reused when it all matches
+  const segmentKey = options.cache
+    ? (filePath: string, hash: string) => contentHash(JSON.stringify([
+        hash,
+        filePath,
+        detailLevelFor(filePath, options.detail),
+        redactor.mode,
+        redactor.allowlistPatterns,
+        formatter.format,
+        options.strategy,
+      ]))
+    : undefined;
+  const reading = { maxFileSize, segmentKey };
+  
+  // Package changes from the local repository
+  if (options.git && hasGitSelection(options.git)) {
+    const changes = await collectGitChanges(
+      options.git,
+      repoPath => !isGeneratedFile(path.posix.basename(repoPath)) && matchesGlobs(repoPath, options),
+      maxFileSize
+    );
+    const toDisplayPath = (repoPath: string) => path.relative(process.cwd(), path.join(changes.root, repoPath)) || repoPath;
+    
+    if (changes.diff) {
+      files.push({
+        path: `${changes.label}.diff`,
+        content: changes.diff,
+        size: Buffer.byteLength(changes.diff),
+        mtimeMs: 0,
+        explicit: true,
+      });
+    } else {
+      notices.push({ path: changes.label, message: 'NO CHANGES' });
+    }
+    
+    for (const file of changes.files) {
+      files.push(decodeFile(toDisplayPath(file.path), file.data, {
+        size: file.size,
+        mtimeMs: 0,
+        explicit: file.changed,
+        skipReason: file.skipReason,
+      }));
+    }
+    
+    for (const deleted of changes.deleted) {
+      notices.push({ path: toDisplayPath(deleted), message: 'DELETED' });
+    }
+  }
   
   // Process each path
   for (const filePath of filePaths) {
@@ -124,40 +340,195 @@ async function readAndConcatenateFiles(filePaths: string[], comment?: string): P
       // Check if path exists
       if (!existsSync(resolvedPath)) {
         logger.warn(`Path does not exist: ${resolvedPath}`);
-        result += `\n\n/* FILE: ${filePath} - NOT FOUND */\n`;
+        notices.push({ path: filePath, message: 'NOT FOUND' });
         continue;
       }
       
       const stats = await fs.stat(resolvedPath);
       
       if (stats.isFile()) {
-        // Add file content with header
-        const content = await fs.readFile(resolvedPath, 'utf-8');
-        result += `\n\n/* FILE: ${filePath} */\n${content}`;
+        files.push(await readLocalFile(resolvedPath, filePath, true, reading));
       } else if (stats.isDirectory()) {
         // Process directory recursively
-        const dirContent = await processDirectory(resolvedPath, filePath);
-        result += dirContent;
+        const matcher = await IgnoreMatcher.forDirectory(resolvedPath);
+        files.push(...await processDirectory(resolvedPath, filePath, matcher, { ...options, ...reading }));
       }
     } catch (error) {
       logger.error(`Error processing path ${filePath}: ${(error as Error).message}`);
-      result += `\n\n/* FILE: ${filePath} - ERROR: ${(error as Error).message} */\n`;
+      notices.push({ path: filePath, message: `ERROR: ${(error as Error).message}` });
+    }
+  }
+  
+  // Fetch files from a remote repository
+  if (options.source) {
+    const remote = await fetchGitHubSource(options.source, (repoPath, isDirectory) => {
+      const name = path.posix.basename(repoPath);
+      return isDirectory
+        ? !shouldSkipDirectory(name)
+        : !isGeneratedFile(name) && matchesGlobs(repoPath, options);
+    }, maxFileSize);
+    const label = `${remote.owner}/${remote.repo}`;
+    source = { repo: label, sha: remote.sha };
+    
+    for (const file of remote.files) {
+      files.push(decodeFile(`${label}/${file.path}`, file.data, {
+        size: file.size,
+        mtimeMs: 0,
+        explicit: file.explicit,
+        skipReason: file.skipReason,
+      }));
+    }
+    
+    for (const missing of remote.missing) {
+      notices.push({ path: `${label}/${missing}`, message: 'NOT FOUND' });
+    }
+  }
+  
+  const ranked = rankFiles(dedupeFiles(files));
+  
+  const findings = new Map<ContextFile, Pick<CachedSegment, 'findings' | 'allowed'>>();
+  
+  for (const file of ranked) {
+    if (file.segment) {
+      redactor.replay(file.path, file.segment.findings, file.segment.allowed);
+      continue;
+    }
+    if (file.skipReason) {
+      continue;
+    }
+    
+    // Reduce files to outlines where asked, for languages that have an outliner
+    const level = detailLevelFor(file.path, options.detail);
+    const outline = level === 'full' ? undefined : outlineFile(file.path, file.content, level);
+    if (outline !== undefined) {
+      file.content = outline;
+      file.detail = level;
+    }
+    
+    // Redact secrets before anything is measured or leaves the machine
+    const before = redactor.getReport();
+    file.content = redactor.redact(file.path, file.content);
+    const after = redactor.getReport();
+    findings.set(file, {
+      findings: after.findings.slice(before.findings.length).map(({ path: _path, ...finding }) => finding),
+      allowed: after.allowed - before.allowed,
+    });
+  }
+  redactor.assertClean();
+  
+  const redactions = redactor.getReport().findings.length;
+  if (redactions > 0) {
+    logger.warn(`Redacted ${redactions} secrets from the context`);
+  }
+  const manifest: ContextManifest = { included: [], omitted: [], maxContextTokens: options.maxContextTokens };
+  const included: ContextFileEntry[] = [];
+  
+  // Reserve room for everything that isn't file content, assuming every file appears in the manifest
+  let remaining = Infinity;
+  if (options.maxContextTokens !== undefined) {
+    const worstCase = formatter.render({
+      manifest: {
+        included: ranked.map(file => ({ path: file.path, tokens: Number.MAX_SAFE_INTEGER, detail: file.detail })),
+        omitted: [],
+        maxContextTokens: options.maxContextTokens,
+      },
+      files: [],
+      notices,
+      comment: options.comment,
+    });
+    remaining = options.maxContextTokens - countTokens(worstCase, options.strategy);
+  }
+  
+  for (const file of ranked) {
+    if (file.skipReason) {
+      manifest.omitted.push({ path: file.path, tokens: 0, reason: file.skipReason });
+      
+      // Remember binary files so they aren't read again
+      if (segmentKey && file.hash && !file.segment) {
+        contextCache.putSegment(segmentKey(file.path, file.hash), { content: '', tokens: 0, skipReason: file.skipReason, findings: [], allowed: 0 });
+      }
+      continue;
+    }
+    
+    const entry: ContextFileEntry = {
+      path: file.path,
+      language: detectLanguage(file.path),
+      size: file.size,
+      detail: file.detail,
+      content: file.content,
+    };
+    const tokens = file.segment?.tokens ?? countTokens(formatter.formatFile(entry), options.strategy);
+    
+    // Cache newly packaged local files, unless strict redaction is about to reject them
+    const scan = findings.get(file);
+    if (segmentKey && file.hash && scan && !(redactor.mode === 'strict' && scan.findings.length > 0)) {
+      contextCache.putSegment(segmentKey(file.path, file.hash), { content: file.content, tokens, detail: file.detail, ...scan });
+    }
+    
+    if (tokens <= remaining) {
+      included.push(entry);
+      remaining -= tokens;
+      manifest.included.push({ path: file.path, tokens, detail: file.detail });
+    } else {
+      manifest.omitted.push({ path: file.path, tokens, reason: 'exceeds token budget' });
     }
   }
   
-  // Add comment if provided
-  if (comment) {
-    result += `\n\n/* COMMENT: */\n${comment}\n`;
+  const overBudget = manifest.omitted.filter(entry => entry.reason === 'exceeds token budget').length;
+  if (overBudget > 0) {
+    logger.warn(`Omitted ${overBudget} files that did not fit in ${options.maxContextTokens} tokens`);
   }
   
-  return result;
+  return {
+    content: formatter.render({ manifest, files: included, notices, comment: options.comment }),
+    manifest,
+    source,
+    cachedFiles: ranked.filter(file => file.segment).length,
+  };
+}
+
+/**
+ * Drop files that were reached through more than one of the given paths, keeping the first
+ */
+function dedupeFiles(files: ContextFile[]): ContextFile[] {
+  const seen = new Set<string>();
+  return files.filter(file => {
+    const key = path.resolve(process.cwd(), file.path);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Order files by packing priority: explicit files in the order given, then
+ * most recently modified, then smallest, then by path
+ */
+function rankFiles(files: ContextFile[]): ContextFile[] {
+  const explicit = files.filter(file => file.explicit);
+  const discovered = files
+    .filter(file => !file.explicit)
+    .sort((a, b) =>
+      (b.mtimeMs - a.mtimeMs) ||
+      (a.size - b.size) ||
+      a.path.localeCompare(b.path)
+    );
+  
+  return [...explicit, ...discovered];
 }
 
 /**
- * Process a directory recursively to find and concatenate all files
+ * Process a directory recursively to find all files, skipping ignored paths
  */
-async function processDirectory(dirPath: string, relativePath: string): Promise<string> {
-  let result = '';
+async function processDirectory(
+  dirPath: string,
+  relativePath: string,
+  matcher: IgnoreMatcher,
+  options: { include?: string[]; exclude?: string[] } & LocalReadOptions
+): Promise<ContextFile[]> {
+  const files: ContextFile[] = [];
   
   try {
     // Read directory entries
@@ -170,34 +541,26 @@ async function processDirectory(dirPath: string, relativePath: string): Promise<
       
       if (entry.isDirectory()) {
         // Skip node_modules and other common directories to ignore
-        if (shouldSkipDirectory(entry.name)) {
+        if (shouldSkipDirectory(entry.name) || matcher.isIgnored(fullPath, true)) {
           continue;
         }
         
-        // Process subdirectory
-        const dirContent = await processDirectory(fullPath, relPath);
-        result += dirContent;
+        // Process subdirectory with its own ignore rules, if any
+        files.push(...await processDirectory(fullPath, relPath, await matcher.descend(fullPath), options));
       } else if (entry.isFile()) {
-        // Skip binary and other files not suitable for LLM context
-        if (shouldSkipFile(entry.name)) {
+        // Skip generated files and ignored paths
+        if (isGeneratedFile(entry.name) || matcher.isIgnored(fullPath, false) || !matchesGlobs(relPath, options)) {
           continue;
         }
         
-        // Add file content with header
-        try {
-          const content = await fs.readFile(fullPath, 'utf-8');
-          result += `\n\n/* FILE: ${relPath} */\n${content}`;
-        } catch (error) {
-          logger.error(`Error reading file ${relPath}: ${(error as Error).message}`);
-          result += `\n\n/* FILE: ${relPath} - ERROR: ${(error as Error).message} */\n`;
-        }
+        files.push(await readLocalFile(fullPath, relPath, false, options));
       }
     }
   } catch (error) {
     logger.error(`Error processing directory ${dirPath}: ${(error as Error).message}`);
   }
   
-  return result;
+  return files;
 }
 
 /**
@@ -222,16 +585,10 @@ function shouldSkipDirectory(dirName: string): boolean {
 }
 
 /**
- * Check if a file should be skipped
+ * Check if a file is generated text not worth sending (binary files are found by sniffing their content)
  */
-function shouldSkipFile(fileName: string): boolean {
-  // Skip by extension
+function isGeneratedFile(fileName: string): boolean {
   const extensionsToSkip = [
-    '.jpg', '.jpeg', '.png', '.gif', '.bmp', '.ico', '.svg',
-    '.mp3', '.mp4', '.wav', '.ogg', '.webm',
-    '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
-    '.zip', '.rar', '.tar', '.gz', '.7z',
-    '.exe', '.dll', '.so', '.dylib',
     '.min.js', '.min.css',
     '.map',
     '.lock',
@@ -240,11 +597,123 @@ function shouldSkipFile(fileName: string): boolean {
   return extensionsToSkip.some(ext => fileName.endsWith(ext));
 }
 
+// How local files are read: the size cap and, when caching, the key of a file's cached segment
+interface LocalReadOptions {
+  maxFileSize: number;
+  segmentKey?: (filePath: string, hash: string) => string;
+}
+
+/**
+ * Read a local file, skipping it if it's over the size cap. An unchanged
+ * file with a cached segment isn't read at all.
+ */
+async function readLocalFile(fullPath: string, displayPath: string, explicit: boolean, options: LocalReadOptions): Promise<ContextFile> {
+  try {
+    const stats = await fs.stat(fullPath);
+    const file = { size: stats.size, mtimeMs: stats.mtimeMs, explicit };
+    
+    if (stats.size > options.maxFileSize) {
+      return { ...file, path: displayPath, content: '', skipReason: sizeCapReason(stats.size, options.maxFileSize) };
+    }
+    
+    if (!options.segmentKey) {
+      return decodeFile(displayPath, await fs.readFile(fullPath), file);
+    }
+    
+    // Files are only read (and hashed) when they've changed or been touched since they were last seen
+    let hash = contextCache.getFileHash(fullPath, stats);
+    let data: Buffer | undefined;
+    if (!hash) {
+      data = await fs.readFile(fullPath);
+      hash = contentHash(data);
+      contextCache.recordFile(fullPath, stats, hash);
+    }
+    
+    const segment = contextCache.getSegment(options.segmentKey(displayPath, hash));
+    if (segment) {
+      return { ...file, path: displayPath, content: segment.content, detail: segment.detail, skipReason: segment.skipReason, hash, segment };
+    }
+    
+    return { ...decodeFile(displayPath, data ?? await fs.readFile(fullPath), file), hash };
+  } catch (error) {
+    logger.error(`Error reading file ${displayPath}: ${(error as Error).message}`);
+    return { path: displayPath, content: '', size: 0, mtimeMs: 0, explicit, skipReason: `read error: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Turn raw bytes into a context file, transcoding text to UTF-8 and marking binary files as skipped
+ */
+function decodeFile(filePath: string, data: Buffer, file: Omit<ContextFile, 'path' | 'content'>): ContextFile {
+  if (file.skipReason) {
+    return { ...file, path: filePath, content: '' };
+  }
+  
+  const decoded = decodeText(data);
+  if ('skipReason' in decoded) {
+    logger.debug(`Skipping ${filePath}: ${decoded.skipReason}`);
+    return { ...file, path: filePath, content: '', skipReason: decoded.skipReason };
+  }
+  
+  if (decoded.encoding !== 'utf-8') {
+    logger.debug(`Transcoded ${filePath} from ${decoded.encoding}`);
+  }
+  return { ...file, path: filePath, content: decoded.text };
+}
+
+/**
+ * Find an identical context stored earlier in the same backend, checking
+ * that it is still there and unchanged
+ */
+async function findStoredContext(storage: StorageBackend, backendKey: string, hash: string): Promise<StoredContent | undefined> {
+  const previous = contextCache.getStored(backendKey, hash);
+  if (!previous) {
+    return undefined;
+  }
+  
+  try {
+    const existing = await storage.load(previous.path);
+    if (existing !== undefined && contentHash(existing) === hash) {
+      return previous;
+    }
+  } catch (error) {
+    logger.debug(`Could not check stored context ${previous.path}: ${(error as Error).message}`);
+  }
+  
+  contextCache.forgetStored(backendKey, hash);
+  return undefined;
+}
+
+/**
+ * Describe the local paths and remote source a context is built from
+ */
+function describeInputs(options: ContextOptions, resolved?: { repo: string; sha: string }): string {
+  const inputs = [...options.paths];
+  
+  if (options.staged) {
+    inputs.unshift('staged changes');
+  } else if (options.commit) {
+    inputs.unshift(`commit ${options.commit}`);
+  } else if (options.diff) {
+    inputs.unshift(`diff ${options.diff}`);
+  }
+  
+  if (options.source) {
+    const repo = resolved
+      ? `${resolved.repo}@${resolved.sha.slice(0, 7)}`
+      : `${options.source.repo}@${options.source.ref || 'HEAD'}`;
+    const paths = options.source.paths && options.source.paths.length > 0 ? ` (${options.source.paths.join(', ')})` : '';
+    inputs.push(repo + paths);
+  }
+  
+  return inputs.join(', ');
+}
+
 /**
- * Generate a default path for GitHub storage
+ * Generate a default path for context storage
  */
-function generateDefaultGithubPath(): string {
+function generateDefaultStoragePath(extension: string): string {
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const randomId = crypto.randomBytes(4).toString('hex');
-  return `contexts/context-${timestamp}-${randomId}.txt`;
+  return `contexts/context-${timestamp}-${randomId}.${extension}`;
 }
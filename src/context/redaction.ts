@@ -0,0 +1,248 @@
+import path from 'path';
+
+// How detected secrets are handled: replaced with placeholders, fail the request, or left alone
+export const redactionModes = ['redact', 'strict', 'off'] as const;
+
+export type RedactionMode = typeof redactionModes[number];
+
+// A detected secret (its value is never recorded)
+export interface RedactionFinding {
+  path: string;
+  line: number;
+  type: string;
+}
+
+// What the redaction pass found and did
+export interface RedactionReport {
+  mode: RedactionMode;
+  findings: RedactionFinding[];
+  // Findings that matched the allowlist and were left in place
+  allowed: number;
+}
+
+// A kind of secret and how to recognise it
+interface SecretPattern {
+  type: string;
+  pattern: RegExp;
+  // Extra check on the matched value (and the name it is assigned to, if any), to cut down false positives
+  validate?: (value: string, name?: string) => boolean;
+}
+
+// Last words of identifiers that name a secret, e.g. DB_PASSWORD, accessToken or client-secret
+const SECRET_WORDS = new Set(['secret', 'token', 'password', 'passwd', 'credential', 'credentials', 'apikey']);
+
+// Words before a final "key" that make it a secret, e.g. API_KEY or secretKey but not primaryKey
+const SECRET_KEY_QUALIFIERS = new Set(['api', 'secret', 'access', 'private', 'signing', 'encryption', 'master']);
+
+// Ordered from most to least specific; when matches overlap the earlier pattern wins
+const secretPatterns: SecretPattern[] = [
+  {
+    type: 'private-key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  { type: 'aws-access-key-id', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g },
+  { type: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { type: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { type: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g },
+  { type: 'stripe-key', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { type: 'anthropic-api-key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g },
+  { type: 'openai-api-key', pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]{20,}/g },
+  { type: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    // NAME=value lines as found in .env files and shell scripts
+    type: 'env-assignment',
+    pattern: /(?<=^[ \t]*(?:export[ \t]+)?(?<name>[A-Za-z0-9_]+)[ \t]*=[ \t]*["']?)[^\s"'#]{6,}/gm,
+    validate: (value, name) => isSecretName(name) && !isPlaceholder(value),
+  },
+  {
+    // Quoted values assigned to secret-sounding names in code and config files
+    type: 'secret-assignment',
+    pattern: /(?<=(?<![A-Za-z0-9_-])(?<name>[A-Za-z0-9_-]+)["']?\s*[:=]\s*["'])[^"'\s]{8,}(?=["'])/g,
+    validate: (value, name) => isSecretName(name) && looksLikeSecret(value, 8, false),
+  },
+  {
+    type: 'high-entropy-string',
+    pattern: /[A-Za-z0-9+/_-]{32,}={0,2}/g,
+    validate: value => /[a-z]/.test(value) && /[A-Z]/.test(value) && /\d/.test(value) && shannonEntropy(value) >= 4.2,
+  },
+];
+
+// In .env files every assignment is a candidate, whatever its name
+const environmentFilePattern: SecretPattern = {
+  type: 'env-assignment',
+  pattern: /(?<=^[ \t]*(?:export[ \t]+)?[A-Za-z_][A-Za-z0-9_.]*[ \t]*=[ \t]*["']?)[^\s"'#]{6,}/gm,
+  validate: value => looksLikeSecret(value, 6),
+};
+
+/**
+ * Detects credentials in context files and replaces them with
+ * `[REDACTED:<type>]` placeholders before anything leaves the machine.
+ *
+ * Values matching an allowlist pattern (regular expressions tested against
+ * the detected value) are left in place. In strict mode nothing is
+ * replaced; `assertClean` fails instead.
+ */
+export class Redactor {
+  private readonly allowlist: RegExp[];
+  private readonly findings: RedactionFinding[] = [];
+  private allowed = 0;
+
+  constructor(readonly mode: RedactionMode, readonly allowlistPatterns: string[] = []) {
+    this.allowlist = allowlistPatterns.map(entry => {
+      try {
+        return new RegExp(entry);
+      } catch (error) {
+        throw new Error(`Invalid redaction allowlist pattern: ${entry}`);
+      }
+    });
+  }
+
+  /**
+   * Scan a file and return its content with secrets replaced (unchanged in strict and off modes)
+   */
+  public redact(filePath: string, content: string): string {
+    if (this.mode === 'off') {
+      return content;
+    }
+
+    const matches = this.findSecrets(filePath, content);
+    if (matches.length === 0 || this.mode === 'strict') {
+      return content;
+    }
+
+    let result = '';
+    let position = 0;
+    for (const match of matches) {
+      result += content.slice(position, match.start) + `[REDACTED:${match.type}]`;
+      position = match.end;
+    }
+
+    return result + content.slice(position);
+  }
+
+  /**
+   * Record the findings of an earlier scan of unchanged content, e.g. from the context cache
+   */
+  public replay(filePath: string, findings: Array<Omit<RedactionFinding, 'path'>>, allowed: number): void {
+    this.findings.push(...findings.map(finding => ({ path: filePath, ...finding })));
+    this.allowed += allowed;
+  }
+
+  /**
+   * Throw if secrets were found in strict mode
+   */
+  public assertClean(): void {
+    if (this.mode !== 'strict' || this.findings.length === 0) {
+      return;
+    }
+
+    const locations = this.findings.map(finding => `${finding.path}:${finding.line} (${finding.type})`);
+    throw new Error(`Secrets detected, refusing to package context (strict redaction): ${locations.join(', ')}`);
+  }
+
+  public getReport(): RedactionReport {
+    return { mode: this.mode, findings: [...this.findings], allowed: this.allowed };
+  }
+
+  // Collect non-overlapping secret matches in order, recording each as a finding
+  private findSecrets(filePath: string, content: string): Array<{ start: number; end: number; type: string }> {
+    const candidates: Array<{ start: number; end: number; type: string; priority: number }> = [];
+
+    const patterns = isEnvironmentFile(filePath) ? [...secretPatterns, environmentFilePattern] : secretPatterns;
+    patterns.forEach((secret, priority) => {
+      for (const match of content.matchAll(secret.pattern)) {
+        if (!secret.validate || secret.validate(match[0], match.groups?.name)) {
+          candidates.push({ start: match.index!, end: match.index! + match[0].length, type: secret.type, priority });
+        }
+      }
+    });
+
+    candidates.sort((a, b) => (a.start - b.start) || (a.priority - b.priority));
+
+    const matches: Array<{ start: number; end: number; type: string }> = [];
+    let covered = 0;
+
+    for (const candidate of candidates) {
+      if (candidate.start < covered) {
+        continue;
+      }
+      covered = candidate.end;
+
+      if (this.allowlist.some(pattern => pattern.test(content.slice(candidate.start, candidate.end)))) {
+        this.allowed++;
+        continue;
+      }
+
+      matches.push(candidate);
+      this.findings.push({ path: filePath, line: lineNumberAt(content, candidate.start), type: candidate.type });
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Whether a file name looks like an environment file (.env, .env.local, ...)
+ */
+function isEnvironmentFile(filePath: string): boolean {
+  return /^\.env(\..+)?$/.test(path.basename(filePath));
+}
+
+/**
+ * Whether an identifier names a secret: its last word (splitting snake_case,
+ * kebab-case and camelCase) is one, so `tokenizer` or `author` are not
+ */
+function isSecretName(name: string | undefined): boolean {
+  const words = (name ?? '').replace(/([a-z\d])([A-Z])/g, '$1_$2').toLowerCase().split(/[_-]+/).filter(Boolean);
+  const last = words[words.length - 1];
+  return SECRET_WORDS.has(last) || (last === 'key' && SECRET_KEY_QUALIFIERS.has(words[words.length - 2]));
+}
+
+/**
+ * Heuristic for assignment values: long enough, and mixing letters with
+ * digits or symbols rather than reading like a word or a placeholder. Names
+ * that don't say they are secret also need a digit in the value.
+ */
+function looksLikeSecret(value: string, minLength: number, requireDigit: boolean = true): boolean {
+  if (value.length < minLength || isPlaceholder(value)) {
+    return false;
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z\d]/].filter(pattern => pattern.test(value)).length;
+  return (!requireDigit || /\d/.test(value)) && classes >= 2 && shannonEntropy(value) >= 2.5;
+}
+
+/**
+ * Whether an assigned value stands in for a secret rather than being one:
+ * a literal, a variable reference or template, or example text
+ */
+function isPlaceholder(value: string): boolean {
+  return /^(true|false|null|none|undefined|changeme|change_me)$/i.test(value) ||
+         // $VAR, ${VAR}, %VAR%, <your-key>, {{ key }}
+         /^[$%<{]/.test(value) ||
+         /^(your|my|example|dummy|placeholder|xxx)([_-]|$)/i.test(value) ||
+         // xxxxxxxx, ********
+         /^(.)\1+$/.test(value);
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+function lineNumberAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < index; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
@@ -3,11 +3,12 @@
  * 
  * This service implements two MCP tools:
  * 1. prepare_context - Packages files into a context document and saves to GitHub
- * 2. delegate - Delegates requests to Gemini with context from file paths
+ * 2. delegate - Delegates requests to Gemini, OpenAI or Anthropic models with context from file paths
  */
 
 import { logger } from './utils/logger.js';
 import { startMcpServer } from './mcp/server.js';
+import { initializeProviders } from './providers/index.js';
 import { DirectTransport } from './utils/direct-transport.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 
@@ -21,6 +22,9 @@ async function main(): Promise<void> {
   try {
     logger.info('Starting delegate-mcp...');
     
+    // Register model providers before any tool can route a request
+    initializeProviders();
+    
     // Start MCP server with DirectTransport for improved Claude compatibility
     logger.info('Using DirectTransport for all clients to ensure cross-compatibility');
     const server = await startDirectMcpServer();
@@ -59,11 +63,14 @@ async function startDirectMcpServer(): Promise<McpServer> {
  * Register MCP tools with the server
  */
 async function registerTools(server: McpServer): Promise<void> {
-  const { registerPrepareContextTool, registerDelegateTool } = await import('./mcp/server.js');
+  const { registerPrepareContextTool, registerDelegateTool, registerDelegateCompareTool, registerDelegateJobTools, registerUsageReportTool } = await import('./mcp/server.js');
   
   // Register tools directly using imported functions
   registerPrepareContextTool(server);
   registerDelegateTool(server);
+  registerDelegateCompareTool(server);
+  registerDelegateJobTools(server);
+  registerUsageReportTool(server);
 }
 
 /**
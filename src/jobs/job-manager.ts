@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+// Lifecycle states of a background delegation job
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Persisted record of a background delegation job
+export interface DelegationJob {
+  id: string;
+  status: JobStatus;
+  model: string;
+  prompt: string;
+  createdAt: string;
+  updatedAt: string;
+  // Process that owns the job while it is pending or running
+  pid: number;
+  // Formatted tool output once the job has completed
+  result?: string;
+  error?: string;
+}
+
+// Work performed by a job; it should stop when the signal is aborted
+export type JobRunner = (signal: AbortSignal) => Promise<string>;
+
+// How often a running job's file is checked for a cancellation by another process
+const CANCEL_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Tracks background delegation jobs.
+ *
+ * Each job is persisted as a JSON file under `<tempDirectory>/jobs` so its
+ * status and result survive a server restart. Jobs that were still running
+ * in a process that no longer exists are marked as failed on startup, and a
+ * job cancelled by another process is aborted in the process running it.
+ */
+export class JobManager {
+  private static instance: JobManager;
+  private jobsDirectory: string;
+  private controllers: Map<string, AbortController> = new Map();
+
+  private constructor() {
+    this.jobsDirectory = path.resolve(process.cwd(), config.get('tempDirectory'), 'jobs');
+    fs.mkdirSync(this.jobsDirectory, { recursive: true });
+    this.recoverInterruptedJobs();
+  }
+
+  public static getInstance(): JobManager {
+    if (!JobManager.instance) {
+      JobManager.instance = new JobManager();
+    }
+    return JobManager.instance;
+  }
+
+  /**
+   * Create a job and start running it in the background
+   */
+  public start(details: { model: string; prompt: string }, runner: JobRunner): DelegationJob {
+    const now = new Date().toISOString();
+    const job: DelegationJob = {
+      id: crypto.randomBytes(8).toString('hex'),
+      status: 'pending',
+      model: details.model,
+      prompt: details.prompt,
+      createdAt: now,
+      updatedAt: now,
+      pid: process.pid,
+    };
+    this.save(job);
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    // Run on the next tick so the caller gets the job ID immediately
+    setImmediate(() => this.run(job.id, runner, controller));
+
+    logger.info(`Started delegation job ${job.id}`);
+    return job;
+  }
+
+  /**
+   * Get a job by ID, or undefined if it doesn't exist
+   */
+  public get(jobId: string): DelegationJob | undefined {
+    const jobPath = this.jobPath(jobId);
+    if (!fs.existsSync(jobPath)) {
+      return undefined;
+    }
+
+    return JSON.parse(fs.readFileSync(jobPath, 'utf-8')) as DelegationJob;
+  }
+
+  /**
+   * Cancel a pending or running job. Returns the updated job.
+   */
+  public cancel(jobId: string): DelegationJob | undefined {
+    const job = this.get(jobId);
+    if (!job || !this.isActive(job)) {
+      return job;
+    }
+
+    this.controllers.get(jobId)?.abort();
+    this.controllers.delete(jobId);
+
+    return this.update(jobId, { status: 'cancelled' });
+  }
+
+  /**
+   * Whether a job is still pending or running
+   */
+  public isActive(job: DelegationJob): boolean {
+    return job.status === 'pending' || job.status === 'running';
+  }
+
+  private async run(jobId: string, runner: JobRunner, controller: AbortController): Promise<void> {
+    if (controller.signal.aborted || !this.updateIfActive(jobId, { status: 'running' })) {
+      this.controllers.delete(jobId);
+      return;
+    }
+
+    // Another process cancels the job by rewriting its file, so watch it for that
+    const jobPath = this.jobPath(jobId);
+    const onChange = () => {
+      if (this.get(jobId)?.status === 'cancelled') {
+        logger.info(`Delegation job ${jobId} was cancelled by another process`);
+        controller.abort();
+      }
+    };
+    fs.watchFile(jobPath, { interval: CANCEL_POLL_INTERVAL_MS }, onChange);
+
+    // A cancellation that arrives while finishing up is kept rather than overwritten
+    try {
+      const result = await runner(controller.signal);
+      if (!controller.signal.aborted && this.updateIfActive(jobId, { status: 'completed', result })) {
+        logger.success(`Delegation job ${jobId} completed`);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted && this.updateIfActive(jobId, { status: 'failed', error: (error as Error).message })) {
+        logger.error(`Delegation job ${jobId} failed: ${(error as Error).message}`);
+      }
+    } finally {
+      fs.unwatchFile(jobPath, onChange);
+      this.controllers.delete(jobId);
+    }
+  }
+
+  private update(jobId: string, changes: Partial<DelegationJob>): DelegationJob | undefined {
+    const job = this.get(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    this.save(updated);
+    return updated;
+  }
+
+  // Update a job read fresh from disk, unless it has finished or been cancelled meanwhile
+  private updateIfActive(jobId: string, changes: Partial<DelegationJob>): DelegationJob | undefined {
+    const job = this.get(jobId);
+    return job && this.isActive(job) ? this.update(jobId, changes) : undefined;
+  }
+
+  private save(job: DelegationJob): void {
+    // Write atomically so readers never see a partial file
+    const jobPath = this.jobPath(job.id);
+    const tempPath = `${jobPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(job, null, 2), 'utf-8');
+    fs.renameSync(tempPath, jobPath);
+  }
+
+  private jobPath(jobId: string): string {
+    if (!/^[a-f0-9]+$/.test(jobId)) {
+      throw new Error(`Invalid job ID: ${jobId}`);
+    }
+    return path.join(this.jobsDirectory, `${jobId}.json`);
+  }
+
+  // Mark jobs whose owning process has exited as failed. This runs before any
+  // job is started here, so jobs recorded under our own PID are stale (PID reuse).
+  private recoverInterruptedJobs(): void {
+    for (const file of fs.readdirSync(this.jobsDirectory)) {
+      if (!file.endsWith('.json')) {
+        continue;
+      }
+
+      try {
+        const job = this.get(path.basename(file, '.json'));
+        if (job && this.isActive(job) && (job.pid === process.pid || !isProcessAlive(job.pid))) {
+          this.update(job.id, { status: 'failed', error: 'Job was interrupted by a server restart' });
+          logger.warn(`Marked interrupted delegation job ${job.id} as failed`);
+        }
+      } catch (error) {
+        logger.warn(`Failed to read job file ${file}: ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+/**
+ * Check whether a process with the given ID is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Export a default instance
+export const jobManager = JobManager.getInstance();
@@ -4,9 +4,18 @@ import { z } from 'zod';
 import { logger } from '../utils/logger.js';
 import { prepareContextTool } from './tools/prepare-context.js';
 import { delegateTool } from './tools/delegate.js';
+import { delegateCompareTool } from './tools/delegate-compare.js';
+import { delegateStatusTool, delegateResultTool, delegateCancelTool } from './tools/delegate-jobs.js';
+import { usageReportTool } from './tools/usage-report.js';
+import { storageBackendTypes } from '../storage/index.js';
+import { contextFormats } from '../context/formatters.js';
+import { redactionModes } from '../context/redaction.js';
+import { githubSourceSchema } from '../context/github-source.js';
+import { detailSchema } from '../context/outline.js';
+import { safetySchema } from '../providers/safety.js';
 
 /**
- * Create and configure an MCP server with the prepare_context and delegate tools
+ * Create and configure an MCP server with the prepare_context, delegate, delegate_compare, job and usage_report tools
  */
 export function createMcpServer(): McpServer {
   logger.info('Creating MCP server');
@@ -22,6 +31,15 @@ export function createMcpServer(): McpServer {
   // Register the delegate tool
   registerDelegateTool(server);
   
+  // Register the delegate_compare tool
+  registerDelegateCompareTool(server);
+  
+  // Register the background job tools
+  registerDelegateJobTools(server);
+  
+  // Register the usage_report tool
+  registerUsageReportTool(server);
+  
   logger.success('MCP server initialized successfully');
   return server;
 }
@@ -45,20 +63,37 @@ export async function startMcpServer(): Promise<McpServer> {
 /**
  * Register the prepare_context tool with the MCP server
  */
-function registerPrepareContextTool(server: McpServer): void {
+export function registerPrepareContextTool(server: McpServer): void {
   logger.info('Registering prepare_context tool');
   
   server.tool(
     'prepare_context',
-    'Prepare context from file paths and save to GitHub',
+    'Prepare context from file paths or a GitHub repository and save it to the selected storage backend',
     {
-      paths: z.array(z.string()).describe('Array of file or directory paths to include'),
+      paths: z.array(z.string()).optional().describe('Array of file or directory paths to include'),
+      source: githubSourceSchema.optional().describe('GitHub repository, ref and paths to package files from instead of the local working directory'),
+      diff: z.string().optional().describe('Package the changes in a revision range of the local repository, e.g. main...HEAD'),
+      staged: z.boolean().optional().describe('Package the changes staged in the local repository'),
+      commit: z.string().optional().describe('Package the changes made by a commit in the local repository'),
+      surrounding: z.boolean().optional().describe('With diff, staged or commit, also include unchanged files in the directories of the changed files'),
       comment: z.string().optional().describe('Comment to append to the end of the context'),
+      include: z.array(z.string()).optional().describe('Glob patterns; only files found in directories that match one are included'),
+      exclude: z.array(z.string()).optional().describe('Glob patterns for files found in directories to leave out'),
+      maxFileSize: z.number().int().positive().optional().describe('Skip files larger than this many bytes (defaults to MAX_FILE_SIZE)'),
+      detail: detailSchema.optional().describe('Detail level (full, outline or names) for every file, or a map of paths and glob patterns to levels; the last matching entry wins'),
+      maxContextTokens: z.number().int().positive().optional().describe('Token budget for the packaged context; lower-priority files that do not fit are omitted'),
+      model: z.string().optional().describe('Model the context is prepared for; selects the token counting strategy'),
+      outputFormat: z.enum(contextFormats).optional().describe('Format of the packaged context (text, xml, json or markdown)'),
+      redaction: z.enum(redactionModes).optional().describe('How detected secrets are handled: redact (replace with placeholders), strict (fail) or off; defaults to REDACTION_MODE'),
+      redactionAllowlist: z.array(z.string()).optional().describe('Regular expressions for detected values that are not secrets and may be kept'),
       owner: z.string().optional().describe('GitHub repository owner'),
       repo: z.string().optional().describe('GitHub repository name'),
       branch: z.string().optional().describe('GitHub repository branch'),
       outputPath: z.string().optional().describe('Path where output should be saved locally'),
-      githubPath: z.string().optional().describe('Path in the GitHub repository to save the file'),
+      storage: z.enum(storageBackendTypes).optional().describe('Storage backend for the context (github, local, git or ephemeral)'),
+      storagePath: z.string().optional().describe('Path in the storage backend to save the file'),
+      githubPath: z.string().optional().describe('Deprecated alias for storagePath'),
+      reuse: z.boolean().optional().describe('Reference an identical context stored earlier instead of saving another copy (defaults to true unless storagePath is given)'),
     },
     prepareContextTool
   );
@@ -69,20 +104,39 @@ function registerPrepareContextTool(server: McpServer): void {
 /**
  * Register the delegate tool with the MCP server
  */
-function registerDelegateTool(server: McpServer): void {
+export function registerDelegateTool(server: McpServer): void {
   logger.info('Registering delegate tool');
   
   server.tool(
     'delegate',
-    'Delegate requests to Gemini with context from file paths',
+    'Delegate requests to Gemini, OpenAI or Anthropic models with context from file paths',
     {
       prompt: z.string().describe('The prompt to send to the model'),
+      systemPrompt: z.string().optional().describe('System instructions for the model'),
+      conversationId: z.string().optional().describe('ID of an earlier conversation to continue; prior turns are sent as chat history'),
       paths: z.array(z.string()).optional().describe('Array of file paths to include as context'),
+      source: githubSourceSchema.optional().describe('GitHub repository, ref and paths to package files from instead of the local working directory'),
+      diff: z.string().optional().describe('Package the changes in a revision range of the local repository, e.g. main...HEAD'),
+      staged: z.boolean().optional().describe('Package the changes staged in the local repository'),
+      commit: z.string().optional().describe('Package the changes made by a commit in the local repository'),
+      surrounding: z.boolean().optional().describe('With diff, staged or commit, also include unchanged files in the directories of the changed files'),
       comment: z.string().optional().describe('Additional context comment'),
-      model: z.string().optional().describe('The model to use (only Gemini models supported)'),
+      include: z.array(z.string()).optional().describe('Glob patterns; only files found in directories that match one are included'),
+      exclude: z.array(z.string()).optional().describe('Glob patterns for files found in directories to leave out'),
+      maxFileSize: z.number().int().positive().optional().describe('Skip files larger than this many bytes (defaults to MAX_FILE_SIZE)'),
+      detail: detailSchema.optional().describe('Detail level (full, outline or names) for every file, or a map of paths and glob patterns to levels; the last matching entry wins'),
+      maxContextTokens: z.number().int().positive().optional().describe('Token budget for the context built from paths; lower-priority files that do not fit are omitted'),
+      outputFormat: z.enum(contextFormats).optional().describe('Format of the context built from paths (text, xml, json or markdown); defaults to the best format for the target provider'),
+      redaction: z.enum(redactionModes).optional().describe('How detected secrets are handled: redact (replace with placeholders), strict (fail) or off; defaults to REDACTION_MODE'),
+      redactionAllowlist: z.array(z.string()).optional().describe('Regular expressions for detected values that are not secrets and may be kept'),
+      cacheContext: z.boolean().optional().describe('Let the provider cache the context for later calls with the same inputs (Gemini only; defaults to GEMINI_CONTEXT_CACHE)'),
+      model: z.string().optional().describe('The model to use, optionally prefixed with its provider (e.g., gemini-1.5-pro, openai/gpt-4o, anthropic/claude-sonnet-4-0)'),
+      fallback: z.union([z.boolean(), z.array(z.string())]).optional().describe('Models to try in order if the model fails with a quota, overload, context length or safety error; true (the default) uses the FALLBACK_CHAINS entry for the model and false disables fallback'),
       temperature: z.number().min(0).max(1).optional().describe('Temperature for generation'),
       maxTokens: z.number().optional().describe('Maximum tokens to generate'),
-      realtime: z.boolean().optional().default(true).describe('Whether to return results in realtime'),
+      safety: safetySchema.optional().describe('Safety filter threshold (off, block_none, block_only_high, block_medium_and_above or block_low_and_above) for every category, or a map of categories (harassment, hate_speech, sexually_explicit, dangerous_content, civic_integrity) to thresholds; Gemini only, defaults to GEMINI_SAFETY'),
+      realtime: z.boolean().optional().default(true).describe('Whether to wait for the response (true) or run as a background job and return its ID (false)'),
+      storage: z.enum(storageBackendTypes).optional().describe('Storage backend for context, conversation and response (github, local, git or ephemeral)'),
       owner: z.string().optional().describe('GitHub repository owner'),
       repo: z.string().optional().describe('GitHub repository name'),
       branch: z.string().optional().describe('GitHub repository branch'),
@@ -92,3 +146,100 @@ function registerDelegateTool(server: McpServer): void {
   
   logger.debug('delegate tool registered successfully');
 }
+
+/**
+ * Register the delegate_compare tool with the MCP server
+ */
+export function registerDelegateCompareTool(server: McpServer): void {
+  logger.info('Registering delegate_compare tool');
+  
+  server.tool(
+    'delegate_compare',
+    'Send the same prompt and context to several models concurrently and compare their answers side by side',
+    {
+      prompt: z.string().describe('The prompt to send to the model'),
+      systemPrompt: z.string().optional().describe('System instructions for the model'),
+      models: z.array(z.string()).min(2).describe('Models to send the prompt to, optionally prefixed with their providers (e.g., gemini-1.5-pro, openai/gpt-4o)'),
+      paths: z.array(z.string()).optional().describe('Array of file paths to include as context'),
+      source: githubSourceSchema.optional().describe('GitHub repository, ref and paths to package files from instead of the local working directory'),
+      diff: z.string().optional().describe('Package the changes in a revision range of the local repository, e.g. main...HEAD'),
+      staged: z.boolean().optional().describe('Package the changes staged in the local repository'),
+      commit: z.string().optional().describe('Package the changes made by a commit in the local repository'),
+      surrounding: z.boolean().optional().describe('With diff, staged or commit, also include unchanged files in the directories of the changed files'),
+      comment: z.string().optional().describe('Additional context comment'),
+      include: z.array(z.string()).optional().describe('Glob patterns; only files found in directories that match one are included'),
+      exclude: z.array(z.string()).optional().describe('Glob patterns for files found in directories to leave out'),
+      maxFileSize: z.number().int().positive().optional().describe('Skip files larger than this many bytes (defaults to MAX_FILE_SIZE)'),
+      detail: detailSchema.optional().describe('Detail level (full, outline or names) for every file, or a map of paths and glob patterns to levels; the last matching entry wins'),
+      maxContextTokens: z.number().int().positive().optional().describe('Token budget for the context built from paths; lower-priority files that do not fit are omitted'),
+      outputFormat: z.enum(contextFormats).optional().describe('Format of the context built from paths (text, xml, json or markdown); defaults to the best format for the target provider'),
+      redaction: z.enum(redactionModes).optional().describe('How detected secrets are handled: redact (replace with placeholders), strict (fail) or off; defaults to REDACTION_MODE'),
+      redactionAllowlist: z.array(z.string()).optional().describe('Regular expressions for detected values that are not secrets and may be kept'),
+      cacheContext: z.boolean().optional().describe('Let the provider cache the context for later calls with the same inputs (Gemini only; defaults to GEMINI_CONTEXT_CACHE)'),
+      temperature: z.number().min(0).max(1).optional().describe('Temperature for generation'),
+      maxTokens: z.number().optional().describe('Maximum tokens to generate'),
+      safety: safetySchema.optional().describe('Safety filter threshold (off, block_none, block_only_high, block_medium_and_above or block_low_and_above) for every category, or a map of categories (harassment, hate_speech, sexually_explicit, dangerous_content, civic_integrity) to thresholds; Gemini only, defaults to GEMINI_SAFETY'),
+      storage: z.enum(storageBackendTypes).optional().describe('Storage backend for the context and comparison (github, local, git or ephemeral)'),
+      owner: z.string().optional().describe('GitHub repository owner'),
+      repo: z.string().optional().describe('GitHub repository name'),
+      branch: z.string().optional().describe('GitHub repository branch'),
+    },
+    delegateCompareTool
+  );
+  
+  logger.debug('delegate_compare tool registered successfully');
+}
+
+/**
+ * Register the delegate_status, delegate_result and delegate_cancel tools with the MCP server
+ */
+export function registerDelegateJobTools(server: McpServer): void {
+  logger.info('Registering delegate job tools');
+  
+  const jobParams = {
+    jobId: z.string().describe('ID of the job returned by delegate with realtime: false'),
+  };
+  
+  server.tool(
+    'delegate_status',
+    'Check the status of a background delegation job',
+    jobParams,
+    delegateStatusTool
+  );
+  
+  server.tool(
+    'delegate_result',
+    'Fetch the result of a completed background delegation job',
+    jobParams,
+    delegateResultTool
+  );
+  
+  server.tool(
+    'delegate_cancel',
+    'Cancel a pending or running background delegation job',
+    jobParams,
+    delegateCancelTool
+  );
+  
+  logger.debug('delegate job tools registered successfully');
+}
+
+/**
+ * Register the usage_report tool with the MCP server
+ */
+export function registerUsageReportTool(server: McpServer): void {
+  logger.info('Registering usage_report tool');
+  
+  server.tool(
+    'usage_report',
+    'Summarise the tokens and estimated cost of delegations by model, day and repository',
+    {
+      since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('First day to include (YYYY-MM-DD, UTC); defaults to the start of the current month'),
+      until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Last day to include (YYYY-MM-DD, UTC); defaults to today'),
+      repository: z.string().optional().describe('Only include delegations for this repository (owner/name)'),
+    },
+    usageReportTool
+  );
+  
+  logger.debug('usage_report tool registered successfully');
+}
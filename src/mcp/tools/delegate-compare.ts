@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import crypto from 'crypto';
+import { logger } from '../../utils/logger.js';
+import { ModelProvider, ModelResponse } from '../../providers/base.js';
+import { findProviderForModel } from '../../providers/index.js';
+import { createStorageBackend, storageBackendTypes, StoredContent } from '../../storage/index.js';
+import { formatRedactionReport } from './prepare-context.js';
+import { formatCost } from '../../usage/budget.js';
+import {
+  createProgressReporter,
+  DelegationContext,
+  delegateParamsSchema,
+  describeContextInputs,
+  describeRepository,
+  formatTokenUsage,
+  prepareDelegationContext,
+  processModelRequest,
+} from './delegate.js';
+
+/**
+ * Schema for the delegate_compare tool parameters: the delegate parameters,
+ * with a list of models in place of the model, fallback and conversation
+ */
+export const delegateCompareParamsSchema = delegateParamsSchema
+  .omit({ conversationId: true, model: true, fallback: true, realtime: true })
+  .extend({
+    models: z.array(z.string()).min(2).describe('Models to send the prompt to, optionally prefixed with their providers (e.g., gemini-1.5-pro, openai/gpt-4o)'),
+    storage: z.enum(storageBackendTypes).optional().describe('Storage backend for the context and comparison (github, local, git or ephemeral)'),
+  });
+
+export type DelegateCompareParams = z.infer<typeof delegateCompareParamsSchema>;
+
+// A model to compare and its provider, or why it has none
+interface ModelTarget {
+  model: string;
+  provider?: ModelProvider;
+  error?: string;
+}
+
+// How one model did
+interface ModelOutcome {
+  model: string;
+  response?: ModelResponse;
+  error?: string;
+  latencyMs: number;
+}
+
+/**
+ * Implementation of the delegate_compare tool
+ *
+ * Sends the same prompt and context to several models concurrently and
+ * stores their answers side by side in `delegate/<id>_comparison.md`.
+ * A model that fails is reported as such without affecting the others.
+ */
+export async function delegateCompareTool(
+  params: DelegateCompareParams,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  logger.info(`delegate_compare tool called with models: ${params.models.join(', ')}`);
+
+  try {
+    // Validate parameters
+    delegateCompareParamsSchema.parse(params);
+
+    const storage = createStorageBackend(params.storage, {
+      owner: params.owner,
+      repo: params.repo,
+      branch: params.branch,
+    });
+    const comparisonId = crypto.randomBytes(8).toString('hex');
+
+    // A model that no available provider supports is reported as failed, like any other failure
+    const targets = await Promise.all(params.models.map(async (model): Promise<ModelTarget> => {
+      try {
+        return { model, provider: await findProviderForModel(model) };
+      } catch (error) {
+        logger.warn(`Model ${model} can't be compared: ${(error as Error).message}`);
+        return { model, error: (error as Error).message };
+      }
+    }));
+
+    // The context is packaged once, formatted for the provider of the first model that has one
+    const formatTarget = targets.find(target => target.provider);
+    const context = formatTarget && await prepareDelegationContext(params, formatTarget.model, formatTarget.provider!.name,
+      storage, extension => `delegate/${comparisonId}_context.${extension}`, extra.signal);
+
+    // Streamed output from all models is forwarded as progress, labelled by model
+    const progress = createProgressReporter(extra);
+    let receivedChars = 0;
+
+    const outcomes = await Promise.all(targets.map(async ({ model, provider, error }): Promise<ModelOutcome> => {
+      if (!provider) {
+        return { model, error, latencyMs: 0 };
+      }
+
+      const started = Date.now();
+      try {
+        const response = await processModelRequest({
+          provider,
+          prompt: params.prompt,
+          systemPrompt: params.systemPrompt,
+          context: context?.content,
+          contextKey: context ? describeContextInputs(params) : undefined,
+          cacheContext: params.cacheContext,
+          model,
+          temperature: params.temperature,
+          maxTokens: params.maxTokens,
+          safety: params.safety,
+          repository: describeRepository(params),
+        }, {
+          signal: extra.signal,
+          onProgress: progress && (text => {
+            receivedChars += text.length;
+            progress(`[${model}] ${text}`, receivedChars);
+          }),
+        });
+        return { model, response, latencyMs: Date.now() - started };
+      } catch (error) {
+        logger.warn(`Model ${model} failed in comparison ${comparisonId}: ${(error as Error).message}`);
+        return { model, error: (error as Error).message, latencyMs: Date.now() - started };
+      }
+    }));
+
+    // Cancellation stops the whole comparison rather than counting as a failed model
+    extra.signal.throwIfAborted();
+
+    const document = renderComparison(comparisonId, params.prompt, outcomes, context);
+    const saved = await storage.save(
+      `delegate/${comparisonId}_comparison.md`,
+      document,
+      `Add comparison ${comparisonId}`
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: document + formatSavedTo(saved, context)
+        }
+      ],
+      isError: outcomes.every(outcome => outcome.error !== undefined)
+    };
+  } catch (error) {
+    logger.error(`Error in delegate_compare tool: ${(error as Error).message}`);
+
+    // Return error result
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${(error as Error).message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Render the comparison as Markdown: a summary table, then each answer in full
+ */
+function renderComparison(
+  comparisonId: string,
+  prompt: string,
+  outcomes: ModelOutcome[],
+  context?: DelegationContext
+): string {
+  let document = `# Comparison ${comparisonId}\n\n## Prompt\n\n${prompt}\n`;
+
+  if (context) {
+    document += `\nContext: ${context.tokens ? `${context.tokens.count} tokens` : 'included'}` +
+                (context.location ? ` (${context.location})` : '') + '\n';
+  }
+
+  document += '\n## Summary\n\n' +
+              '| Model | Status | Latency | Tokens | Cost | Finish reason |\n' +
+              '|-------|--------|---------|--------|------|---------------|\n' +
+              outcomes.map(formatSummaryRow).join('\n') +
+              '\n';
+
+  for (const outcome of outcomes) {
+    document += `\n## ${outcome.model}\n\n` +
+                (outcome.error ? `Failed: ${outcome.error}\n` : `${outcome.response!.content.trim()}\n`);
+  }
+
+  const redactions = formatRedactionReport(context?.redactionReport);
+  return redactions ? `${document}\n---\n${redactions.trim()}\n` : document;
+}
+
+// One model's row in the summary table
+function formatSummaryRow(outcome: ModelOutcome): string {
+  const { response } = outcome;
+  const status = outcome.error ? 'failed' : response?.truncated ? 'truncated' : 'ok';
+  const cells = [
+    response ? `${response.provider}/${response.model}` : outcome.model,
+    status,
+    `${(outcome.latencyMs / 1000).toFixed(1)}s` +
+      (response?.metadata?.queueWaitMs ? ` (${(response.metadata.queueWaitMs / 1000).toFixed(1)}s queued)` : ''),
+    (response && formatTokenUsage(response)) ?? '-',
+    response?.metadata?.cost !== undefined ? formatCost(response.metadata.cost) : '-',
+    response?.finishReason ?? '-',
+  ];
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Describe where the comparison and its context were stored
+ */
+function formatSavedTo(saved: StoredContent, context?: DelegationContext): string {
+  if (!saved.location) {
+    return '\n---\nComparison was not persisted (ephemeral storage).';
+  }
+
+  return `\n---\nComparison saved to: ${saved.location}` +
+         (context?.location
+           ? context.reused
+             ? `\nContext reused (unchanged since an earlier call): ${context.location}`
+             : `\nContext saved to: ${context.location}`
+           : '');
+}
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { DelegationJob, jobManager } from '../../jobs/job-manager.js';
+
+/**
+ * Schema shared by the delegate_status, delegate_result and delegate_cancel tools
+ */
+export const delegateJobParamsSchema = z.object({
+  jobId: z.string().describe('ID of the job returned by delegate with realtime: false'),
+});
+
+export type DelegateJobParams = z.infer<typeof delegateJobParamsSchema>;
+
+/**
+ * Implementation of the delegate_status tool
+ */
+export async function delegateStatusTool(
+  params: DelegateJobParams,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  return withJob('delegate_status', params, job => textResult(formatJobStatus(job)));
+}
+
+/**
+ * Implementation of the delegate_result tool
+ */
+export async function delegateResultTool(
+  params: DelegateJobParams,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  return withJob('delegate_result', params, job => {
+    switch (job.status) {
+      case 'completed':
+        return textResult(job.result ?? '');
+      case 'failed':
+        return { ...textResult(`Job ${job.id} failed: ${job.error}`), isError: true };
+      case 'cancelled':
+        return { ...textResult(`Job ${job.id} was cancelled.`), isError: true };
+      default:
+        return textResult(`Job ${job.id} is still ${job.status}. Try again later.\n\n${formatJobStatus(job)}`);
+    }
+  });
+}
+
+/**
+ * Implementation of the delegate_cancel tool
+ */
+export async function delegateCancelTool(
+  params: DelegateJobParams,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  return withJob('delegate_cancel', params, job => {
+    if (!jobManager.isActive(job)) {
+      return textResult(`Job ${job.id} has already finished with status: ${job.status}`);
+    }
+
+    const cancelled = jobManager.cancel(job.id) ?? job;
+    return textResult(`Job ${job.id} cancelled.\n\n${formatJobStatus(cancelled)}`);
+  });
+}
+
+/**
+ * Look up a job and pass it to the handler, returning an error result if it doesn't exist
+ */
+async function withJob(
+  toolName: string,
+  params: DelegateJobParams,
+  handler: (job: DelegationJob) => CallToolResult
+): Promise<CallToolResult> {
+  logger.info(`${toolName} tool called for job: ${params.jobId}`);
+
+  try {
+    delegateJobParamsSchema.parse(params);
+
+    const job = jobManager.get(params.jobId);
+    if (!job) {
+      throw new Error(`Job not found: ${params.jobId}`);
+    }
+
+    return handler(job);
+  } catch (error) {
+    logger.error(`Error in ${toolName} tool: ${(error as Error).message}`);
+
+    return {
+      ...textResult(`Error: ${(error as Error).message}`),
+      isError: true
+    };
+  }
+}
+
+/**
+ * Describe a job's current state
+ */
+function formatJobStatus(job: DelegationJob): string {
+  return `Job ID: ${job.id}\n` +
+         `Status: ${job.status}\n` +
+         `Model: ${job.model}\n` +
+         `Created: ${job.createdAt}\n` +
+         `Updated: ${job.updatedAt}` +
+         (job.error ? `\nError: ${job.error}` : '');
+}
+
+function textResult(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text
+      }
+    ]
+  };
+}
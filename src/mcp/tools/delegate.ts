@@ -1,15 +1,28 @@
 import { z } from 'zod';
 import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../../utils/logger.js';
-import { ModelResponse } from '../../providers/base.js';
-import { getProvider } from '../../providers/index.js';
+import { ConversationMessage, ModelProvider, ModelResponse, providerRegistry } from '../../providers/base.js';
+import { findProviderForModel } from '../../providers/index.js';
+import { classifyFailure, resolveFallbackChain, SkippedModel } from '../../providers/fallback.js';
 import { config } from '../../utils/config.js';
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
-import { github } from '../../utils/github.js';
+import { createStorageBackend, StorageBackend, storageBackendTypes, StoredContent } from '../../storage/index.js';
+import { ConversationRecord, loadConversation, saveConversation, toHistory } from '../../storage/conversations.js';
 import { prepareContext } from '../../context/packager.js';
+import { contextFormatForProvider, contextFormats, getContextFormatter } from '../../context/formatters.js';
+import { redactionModes, RedactionReport } from '../../context/redaction.js';
+import { formatRedactionReport } from './prepare-context.js';
+import { githubSourceSchema } from '../../context/github-source.js';
+import { detailSchema } from '../../context/outline.js';
+import { safetySchema, SafetySetting } from '../../providers/safety.js';
+import { hasGitSelection } from '../../context/git-selection.js';
+import { jobManager } from '../../jobs/job-manager.js';
+import { TokenCount } from '../../utils/token-counter.js';
+import { createUsageRecord, estimateCallCost, formatCost, spendingBudget } from '../../usage/budget.js';
+import { usageLedger } from '../../usage/ledger.js';
 import crypto from 'crypto';
 
 /**
@@ -18,20 +31,41 @@ import crypto from 'crypto';
 export const delegateParamsSchema = z.object({
   // Required parameters
   prompt: z.string().describe('The prompt to send to the model'),
+  systemPrompt: z.string().optional().describe('System instructions for the model'),
+  
+  // Conversation parameters
+  conversationId: z.string().optional().describe('ID of an earlier conversation to continue; prior turns are sent as chat history'),
   
   // Context parameters
   paths: z.array(z.string()).optional().describe('Array of file paths to include as context'),
+  source: githubSourceSchema.optional().describe('GitHub repository, ref and paths to package files from instead of the local working directory'),
+  diff: z.string().optional().describe('Package the changes in a revision range of the local repository, e.g. main...HEAD'),
+  staged: z.boolean().optional().describe('Package the changes staged in the local repository'),
+  commit: z.string().optional().describe('Package the changes made by a commit in the local repository'),
+  surrounding: z.boolean().optional().describe('With diff, staged or commit, also include unchanged files in the directories of the changed files'),
   comment: z.string().optional().describe('Additional context comment'),
+  include: z.array(z.string()).optional().describe('Glob patterns; only files found in directories that match one are included'),
+  exclude: z.array(z.string()).optional().describe('Glob patterns for files found in directories to leave out'),
+  maxFileSize: z.number().int().positive().optional().describe('Skip files larger than this many bytes (defaults to MAX_FILE_SIZE)'),
+  detail: detailSchema.optional().describe('Detail level (full, outline or names) for every file, or a map of paths and glob patterns to levels; the last matching entry wins'),
+  maxContextTokens: z.number().int().positive().optional().describe('Token budget for the context built from paths; lower-priority files that do not fit are omitted'),
+  outputFormat: z.enum(contextFormats).optional().describe('Format of the context built from paths (text, xml, json or markdown); defaults to the best format for the target provider'),
+  redaction: z.enum(redactionModes).optional().describe('How detected secrets are handled: redact (replace with placeholders), strict (fail) or off; defaults to REDACTION_MODE'),
+  redactionAllowlist: z.array(z.string()).optional().describe('Regular expressions for detected values that are not secrets and may be kept'),
+  cacheContext: z.boolean().optional().describe('Let the provider cache the context for later calls with the same inputs (Gemini only; defaults to GEMINI_CONTEXT_CACHE)'),
   
   // Model parameters
-  model: z.string().optional().describe('The model to use (only Gemini models supported)'),
+  model: z.string().optional().describe('The model to use, optionally prefixed with its provider (e.g., gemini-1.5-pro, openai/gpt-4o, anthropic/claude-sonnet-4-0)'),
+  fallback: z.union([z.boolean(), z.array(z.string())]).optional().describe('Models to try in order if the model fails with a quota, overload, context length or safety error; true (the default) uses the FALLBACK_CHAINS entry for the model and false disables fallback'),
   temperature: z.number().min(0).max(1).optional().describe('Temperature for generation'),
   maxTokens: z.number().optional().describe('Maximum tokens to generate'),
+  safety: safetySchema.optional().describe('Safety filter threshold (off, block_none, block_only_high, block_medium_and_above or block_low_and_above) for every category, or a map of categories (harassment, hate_speech, sexually_explicit, dangerous_content, civic_integrity) to thresholds; Gemini only, defaults to GEMINI_SAFETY'),
   
   // Result handling parameters
-  realtime: z.boolean().optional().default(true).describe('Whether to return results in realtime'),
+  realtime: z.boolean().optional().default(true).describe('Whether to wait for the response (true) or run as a background job and return its ID (false)'),
   
-  // GitHub parameters
+  // Storage parameters
+  storage: z.enum(storageBackendTypes).optional().describe('Storage backend for context, conversation and response (github, local, git or ephemeral)'),
   owner: z.string().optional().describe('GitHub repository owner'),
   repo: z.string().optional().describe('GitHub repository name'),
   branch: z.string().optional().describe('GitHub repository branch'),
@@ -39,12 +73,31 @@ export const delegateParamsSchema = z.object({
 
 export type DelegateParams = z.infer<typeof delegateParamsSchema>;
 
+// Receives each streamed chunk along with the total number of characters so far
+export type ProgressCallback = (text: string, receivedChars: number) => void;
+
+// Outcome of a delegation, before it is formatted for the client
+interface DelegationResult {
+  response: ModelResponse;
+  contextTokens?: TokenCount;
+  redactionReport?: RedactionReport;
+  // Where the context was stored, and whether an identical earlier copy was reused
+  context?: { location: string | null; reused: boolean };
+  // Output token limit requested for the call, if any
+  maxTokens?: number;
+  conversationId: string;
+  requestId: string;
+  persistent: boolean;
+  conversation: StoredContent;
+  savedResponse: StoredContent;
+}
+
 /**
  * Implementation of the delegate tool
  */
 export async function delegateTool(
   params: DelegateParams,
-  extra: RequestHandlerExtra
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
 ): Promise<CallToolResult> {
   logger.info(`delegate tool called with model: ${params.model || config.get('defaultModel')}`);
   
@@ -52,103 +105,40 @@ export async function delegateTool(
     // Validate parameters
     delegateParamsSchema.parse(params);
     
-    // Get owner and repo, either from params or default config
-    const owner = params.owner || config.get('defaultOwner');
-    const repo = params.repo || config.get('defaultRepo');
-    
-    if (!owner || !repo) {
-      throw new Error('Repository owner and name are required. Provide them as parameters or set OWNER and REPO environment variables.');
-    }
-    
-    // Generate conversation and request IDs
-    const conversationId = crypto.randomBytes(8).toString('hex');
-    const requestId = crypto.randomBytes(4).toString('hex');
-    
-    // Prepare context if path is provided
-    let contextContent = '';
-    if (params.paths && params.paths.length > 0) {
-      logger.info(`Preparing context from paths: ${params.paths.join(', ')}`);
-      
-      const contextResult = await prepareContext({
-        paths: params.paths,
-        comment: params.comment,
-        owner,
-        repo,
-        branch: params.branch || config.get('defaultBranch'),
-        githubPath: `delegate/${conversationId}_context.txt`,
-      });
+    if (params.realtime === false) {
+      // Background mode - start a job and return its ID immediately
+      const job = jobManager.start(
+        { model: params.model || config.get('defaultModel'), prompt: params.prompt },
+        async signal => formatDelegationResult(await runDelegation(params, { signal }))
+      );
       
-      if (!contextResult.success) {
-        throw new Error(`Failed to prepare context: ${contextResult.message}`);
-      }
-      
-      contextContent = contextResult.content;
-      logger.success('Context prepared successfully');
-    }
-    
-    // Combine context with prompt
-    let fullPrompt = params.prompt;
-    if (contextContent) {
-      fullPrompt = `${contextContent}\n\n${fullPrompt}`;
-    }
-    
-    // Process the model request
-    const response = await processModelRequest({
-      prompt: fullPrompt,
-      model: params.model || config.get('defaultModel'),
-      temperature: params.temperature,
-      maxTokens: params.maxTokens,
-    });
-    
-    // Save conversation to GitHub
-    const conversationPath = `delegate/${conversationId}_conversation.txt`;
-    await github.saveContentToRepo(
-      owner,
-      repo,
-      conversationPath,
-      `# Conversation ${conversationId}\n\n## Prompt\n\n${fullPrompt}\n\n## Response\n\n${response.content}`,
-      `Add conversation ${conversationId}`
-    );
-    
-    // Save response to GitHub
-    const responsePath = `delegate/${conversationId}_${requestId}_response.txt`;
-    await github.saveContentToRepo(
-      owner,
-      repo,
-      responsePath,
-      response.content,
-      `Add response for conversation ${conversationId}`
-    );
-    
-    // Format result based on realtime flag
-    if (params.realtime !== false) {
-      // Realtime mode - return the full response
       return {
         content: [
           {
             type: 'text',
-            text: response.content + 
-                 `\n\n---\nConversation saved to: https://github.com/${owner}/${repo}/blob/main/${conversationPath}\n` +
-                 `Response saved to: https://github.com/${owner}/${repo}/blob/main/${responsePath}`
-          }
-        ]
-      };
-    } else {
-      // Non-realtime mode - return only the IDs
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Request processed successfully.\n\n` +
-                 `Conversation ID: ${conversationId}\n` +
-                 `Request ID: ${requestId}\n\n` +
-                 `Files saved to:\n` +
-                 `- https://github.com/${owner}/${repo}/blob/main/${conversationPath}\n` +
-                 `- https://github.com/${owner}/${repo}/blob/main/${responsePath}`
+            text: `Delegation started in the background.\n\n` +
+                 `Job ID: ${job.id}\n\n` +
+                 `Use delegate_status to check progress, delegate_result to fetch the response, ` +
+                 `or delegate_cancel to abort the job.`
           }
         ]
       };
     }
+    
+    // Realtime mode - stream partial output as progress notifications and return the full response
+    const result = await runDelegation(params, {
+      signal: extra.signal,
+      onProgress: createProgressReporter(extra),
+    });
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatDelegationResult(result)
+        }
+      ]
+    };
   } catch (error) {
     logger.error(`Error in delegate tool: ${(error as Error).message}`);
     
@@ -166,33 +156,492 @@ export async function delegateTool(
 }
 
 /**
- * Process a model request
+ * Prepare context, call the model and store the conversation and response
+ */
+async function runDelegation(
+  params: DelegateParams,
+  options: { signal?: AbortSignal; onProgress?: ProgressCallback } = {}
+): Promise<DelegationResult> {
+  // Resolve the storage backend for this call
+  const storage = createStorageBackend(params.storage, {
+    owner: params.owner,
+    repo: params.repo,
+    branch: params.branch,
+  });
+  
+  // Continue an existing conversation or start a new one
+  let record: ConversationRecord | undefined;
+  if (params.conversationId) {
+    record = await loadConversation(storage, params.conversationId);
+    
+    if (!record) {
+      throw new Error(`Conversation not found: ${params.conversationId}` +
+        (storage.persistent ? '' : ` (${storage.name} storage does not keep conversations)`));
+    }
+    
+    logger.info(`Continuing conversation ${record.id} (${record.turns.length} previous turns)`);
+  }
+  
+  const conversationId = record?.id ?? crypto.randomBytes(8).toString('hex');
+  const requestId = crypto.randomBytes(4).toString('hex');
+  
+  const model = params.model || config.get('defaultModel');
+  
+  // Resolve the provider up front so the context can be formatted for it
+  const provider = await findProviderForModel(model);
+  
+  // Prepare context if path is provided
+  const prepared = await prepareDelegationContext(params, model, provider.name, storage,
+    extension => `delegate/${conversationId}_${requestId}_context.${extension}`, options.signal);
+  const contextContent = prepared?.content ?? '';
+  
+  // The conversation records the context and prompt together
+  let fullPrompt = params.prompt;
+  if (contextContent) {
+    fullPrompt = `${contextContent}\n\n${fullPrompt}`;
+  }
+  
+  // A fallback to a provider that takes another format gets the context packaged again for it
+  const contextFor = async (fallbackModel: string, providerName: string) =>
+    params.outputFormat || contextFormatForProvider(providerName) === contextFormatForProvider(provider.name)
+      ? prepared?.content
+      : (await prepareDelegationContext(params, fallbackModel, providerName, storage,
+          extension => `delegate/${conversationId}_${requestId}_context.${extension}`, options.signal))?.content;
+  
+  // Process the model request; the context travels separately so the provider can cache it
+  const response = await processModelRequest({
+    provider,
+    prompt: params.prompt,
+    systemPrompt: params.systemPrompt,
+    context: prepared?.content,
+    contextFor: prepared ? contextFor : undefined,
+    contextKey: prepared ? describeContextInputs(params) : undefined,
+    cacheContext: params.cacheContext,
+    history: record ? toHistory(record) : undefined,
+    model,
+    fallbacks: resolveFallbackChain(model, config.get('fallbackChains'), params.fallback).slice(1),
+    temperature: params.temperature,
+    maxTokens: params.maxTokens,
+    safety: params.safety,
+    repository: describeRepository(params),
+  }, options);
+  
+  // Append the new turn to the conversation record
+  const now = new Date().toISOString();
+  const updatedRecord: ConversationRecord = {
+    id: conversationId,
+    createdAt: record?.createdAt ?? now,
+    updatedAt: now,
+    turns: [
+      ...(record?.turns ?? []),
+      {
+        requestId,
+        prompt: fullPrompt,
+        response: response.content,
+        model: response.model,
+        provider: response.provider,
+        timestamp: now,
+      },
+    ],
+  };
+  
+  const conversation = await saveConversation(
+    storage,
+    updatedRecord,
+    record ? `Update conversation ${conversationId}` : `Add conversation ${conversationId}`
+  );
+  
+  // Save response to storage
+  const savedResponse = await storage.save(
+    `delegate/${conversationId}_${requestId}_response.txt`,
+    response.content,
+    `Add response for conversation ${conversationId}`
+  );
+  
+  return {
+    response,
+    contextTokens: prepared?.tokens,
+    redactionReport: prepared?.redactionReport,
+    context: prepared && { location: prepared.location, reused: prepared.reused },
+    maxTokens: params.maxTokens,
+    conversationId,
+    requestId,
+    persistent: storage.persistent,
+    conversation,
+    savedResponse,
+  };
+}
+
+// Parameters that select and shape the context of a delegation
+export type DelegationContextParams = Pick<DelegateParams,
+  'paths' | 'source' | 'diff' | 'staged' | 'commit' | 'surrounding' | 'comment' | 'include' | 'exclude' |
+  'maxFileSize' | 'detail' | 'maxContextTokens' | 'outputFormat' | 'redaction' | 'redactionAllowlist' |
+  'owner' | 'repo' | 'branch'>;
+
+// Context packaged for a delegation
+export interface DelegationContext {
+  content: string;
+  tokens?: TokenCount;
+  redactionReport?: RedactionReport;
+  // Where the context was stored, and whether an identical earlier copy was reused
+  location: string | null;
+  reused: boolean;
+}
+
+/**
+ * Package the context selected by the parameters, formatted for the provider,
+ * or return undefined if no context was asked for
+ * @param storagePath Where to store the context, given the file extension of its format
+ * @param signal Aborts the preparation
+ */
+export async function prepareDelegationContext(
+  params: DelegationContextParams,
+  model: string,
+  providerName: string,
+  storage: StorageBackend,
+  storagePath: (extension: string) => string,
+  signal?: AbortSignal
+): Promise<DelegationContext | undefined> {
+  if ((!params.paths || params.paths.length === 0) && !params.source && !hasGitSelection(params)) {
+    return undefined;
+  }
+  
+  logger.info(`Preparing context from paths: ${(params.paths ?? []).join(', ')}` +
+              (params.source ? ` and source: ${params.source.repo}` : '') +
+              (hasGitSelection(params) ? ' and git changes' : ''));
+  
+  const formatter = getContextFormatter(params.outputFormat ?? contextFormatForProvider(providerName));
+  const contextResult = await prepareContext({
+    paths: params.paths ?? [],
+    source: params.source,
+    diff: params.diff,
+    staged: params.staged,
+    commit: params.commit,
+    surrounding: params.surrounding,
+    comment: params.comment,
+    include: params.include,
+    exclude: params.exclude,
+    maxFileSize: params.maxFileSize,
+    detail: params.detail,
+    maxContextTokens: params.maxContextTokens,
+    model,
+    outputFormat: formatter.format,
+    redaction: params.redaction,
+    redactionAllowlist: params.redactionAllowlist,
+    owner: params.owner,
+    repo: params.repo,
+    branch: params.branch,
+    storage: storage.name,
+    storagePath: storagePath(formatter.extension),
+    reuse: true,
+  }, signal);
+  
+  if (!contextResult.success) {
+    throw new Error(`Failed to prepare context: ${contextResult.message}`);
+  }
+  
+  logger.success('Context prepared successfully');
+  return {
+    content: contextResult.content,
+    tokens: contextResult.tokenCount !== undefined && contextResult.tokenStrategy
+      ? { count: contextResult.tokenCount, strategy: contextResult.tokenStrategy }
+      : undefined,
+    redactionReport: contextResult.redactionReport,
+    location: contextResult.path,
+    reused: contextResult.reused ?? false,
+  };
+}
+
+/**
+ * Format a delegation result as tool output text
+ */
+function formatDelegationResult(result: DelegationResult): string {
+  const { response } = result;
+  let text = response.content;
+  
+  // Flag cut-off output right below it, where it can't be missed
+  if (response.truncated) {
+    text += `\n\n[Truncated: the response reached the output token limit` +
+            (result.maxTokens ? ` of ${result.maxTokens}` : '') +
+            `. Pass a larger maxTokens for the complete response.]`;
+  }
+  
+  const details: string[] = [];
+  const usage = formatTokenUsage(response);
+  if (usage) {
+    details.push(`Tokens: ${usage}`);
+  }
+  
+  if (response.finishReason) {
+    details.push(`Finish reason: ${response.finishReason}`);
+  }
+  
+  const fallback = response.metadata?.fallback;
+  if (fallback) {
+    details.push(`Answered by: ${response.provider}/${response.model} (fallback for ${fallback.requestedModel})`);
+    for (const entry of fallback.skipped as SkippedModel[]) {
+      details.push(`Skipped ${entry.provider}/${entry.model}: ${entry.reason} (${entry.error})`);
+    }
+  }
+  
+  if (response.metadata?.attempts) {
+    details.push(`Attempts: ${response.metadata.attempts} (earlier attempts failed and were retried)`);
+  }
+  
+  if (response.metadata?.cost !== undefined) {
+    details.push(`Cost: ${formatCost(response.metadata.cost)}` +
+                 (response.metadata.costEstimated ? ' (estimated from local token counts)' : ''));
+  }
+  
+  if (response.metadata?.queueWaitMs) {
+    details.push(`Queued: ${(response.metadata.queueWaitMs / 1000).toFixed(1)}s waiting for ${response.provider} rate limits`);
+  }
+  
+  if (result.contextTokens) {
+    details.push(`Context tokens: ${result.contextTokens.count} (strategy: ${result.contextTokens.strategy})`);
+  }
+  
+  if (result.context?.location) {
+    details.push(result.context.reused
+      ? `Context reused (unchanged since an earlier call): ${result.context.location}`
+      : `Context saved to: ${result.context.location}`);
+  }
+  
+  const contextCache = response.metadata?.contextCache;
+  if (contextCache) {
+    details.push(contextCache.hit
+      ? `Provider context cache: hit (${contextCache.name}, expires ${contextCache.expireTime})`
+      : `Provider context cache: created ${contextCache.name} (expires ${contextCache.expireTime})`);
+  }
+  
+  const redactions = formatRedactionReport(result.redactionReport);
+  if (redactions) {
+    details.push(redactions.trim());
+  }
+  
+  if (details.length > 0) {
+    text += `\n\n---\n${details.join('\n')}`;
+  }
+  
+  if (result.persistent) {
+    text += `\n\n---\nConversation ID: ${result.conversationId} (pass as conversationId to continue)\n` +
+            formatStoredLocations([result.conversation, result.savedResponse]);
+  }
+  
+  return text;
+}
+
+/**
+ * Describe the token usage reported by the provider, e.g. "prompt 812, completion 240, total 1052"
+ */
+export function formatTokenUsage(response: ModelResponse): string | undefined {
+  const usage = response.tokenUsage;
+  const parts = [
+    usage?.prompt !== undefined ? `prompt ${usage.prompt}` : undefined,
+    usage?.completion !== undefined ? `completion ${usage.completion}` : undefined,
+    usage?.total !== undefined ? `total ${usage.total}` : undefined,
+  ].filter(part => part !== undefined);
+  
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Identify what a context was built from, so a provider can tell a changed
+ * context apart from an unrelated one
+ */
+export function describeContextInputs(params: DelegationContextParams): string {
+  return JSON.stringify([
+    params.paths, params.source, params.diff, params.staged, params.commit, params.surrounding,
+    params.comment, params.include, params.exclude, params.detail, params.outputFormat,
+  ]);
+}
+
+/**
+ * The repository a delegation works on, as owner/name: the GitHub source it
+ * packages context from, or the configured repository
+ */
+export function describeRepository(params: Pick<DelegateParams, 'source' | 'owner' | 'repo'>): string | undefined {
+  if (params.source) {
+    return params.source.repo.replace(/^https?:\/\/github\.com\//, '').replace(/(\.git)?\/?$/, '');
+  }
+  
+  const owner = params.owner || config.get('defaultOwner');
+  const repo = params.repo || config.get('defaultRepo');
+  return repo ? (owner ? `${owner}/${repo}` : repo) : undefined;
+}
+
+/**
+ * Describe where stored files ended up
+ */
+function formatStoredLocations(stored: StoredContent[]): string {
+  const locations = stored.filter(item => item.location).map(item => `- ${item.location}`);
+  
+  if (locations.length === 0) {
+    return 'Files were not persisted (ephemeral storage).';
+  }
+  
+  return `Files saved to:\n${locations.join('\n')}`;
+}
+
+/**
+ * Create a callback that forwards streamed output to the client as MCP progress
+ * notifications, or undefined if the request didn't ask for progress
+ */
+export function createProgressReporter(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ProgressCallback | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) {
+    return undefined;
+  }
+  
+  return (text, receivedChars) => {
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: receivedChars,
+        message: text,
+      },
+    }).catch(error => {
+      logger.warn(`Failed to send progress notification: ${(error as Error).message}`);
+    });
+  };
+}
+
+/**
+ * Process a model request, streaming the output and assembling the final response.
+ * If the model fails in a way another model might not (quota, overload, context
+ * length or safety), the fallback models are tried in turn.
  */
-async function processModelRequest(params: { 
+export async function processModelRequest(params: { 
+  provider: ModelProvider;
   prompt: string;
+  systemPrompt?: string;
+  context?: string;
+  // Context for a fallback model, formatted for its provider; defaults to the same context
+  contextFor?: (model: string, providerName: string) => Promise<string | undefined>;
+  contextKey?: string;
+  cacheContext?: boolean;
+  history?: ConversationMessage[];
   model: string;
+  fallbacks?: string[];
   temperature?: number;
   maxTokens?: number;
-}): Promise<ModelResponse> {
-  try {
-    // Get the Gemini provider
-    const provider = await getProvider();
+  safety?: SafetySetting;
+  // Repository the delegation works on, as owner/name, for the usage ledger
+  repository?: string;
+}, options: { signal?: AbortSignal; onProgress?: ProgressCallback } = {}): Promise<ModelResponse> {
+  const chain = [params.model, ...(params.fallbacks ?? [])];
+  const skipped: SkippedModel[] = [];
+  let lastError: unknown;
+  
+  // Progress keeps counting up when a fallback model starts over
+  let receivedChars = 0;
+  const onProgress: ProgressCallback | undefined = options.onProgress && (text => {
+    receivedChars += text.length;
+    options.onProgress!(text, receivedChars);
+  });
+  
+  for (const [index, model] of chain.entries()) {
+    const provider = index === 0 ? params.provider : await providerRegistry.findProviderForModel(model);
+    if (!provider) {
+      logger.warn(`No available provider supports fallback model ${model}; skipping it`);
+      skipped.push({ model, provider: 'none', reason: 'unavailable', error: 'No available provider supports this model' });
+      continue;
+    }
     
-    logger.info(`Using Gemini provider with model: ${params.model}`);
+    const context = index > 0 && params.contextFor ? await params.contextFor(model, provider.name) : params.context;
     
-    // Call the model
-    logger.info('Sending request to model...');
-    const response = await provider.generateText({
-      model: params.model,
-      prompt: params.prompt,
-      temperature: params.temperature,
-      maxTokens: params.maxTokens,
-    });
+    // Refuse the call up front if its estimated cost would take spending over a budget
+    const request = { ...params, model, context };
+    const reservation = spendingBudget.reserve(estimateCallCost(provider.name, request));
+    const streamed = { content: '' };
     
-    logger.success('Received response from model');
-    return response;
-  } catch (error) {
-    logger.error(`Error processing model request: ${(error as Error).message}`);
-    throw error;
+    try {
+      const response = await streamModelResponse(provider, request, { ...options, onProgress }, streamed);
+      const usage = createUsageRecord(provider.name, request, { response }, params.repository);
+      usageLedger.record(usage);
+      
+      const metadata = {
+        ...response.metadata,
+        ...(usage.cost !== undefined ? { cost: usage.cost, costEstimated: usage.estimated } : {}),
+        ...(skipped.length > 0 ? { fallback: { requestedModel: params.model, skipped } } : {}),
+      };
+      return { ...response, metadata };
+    } catch (error) {
+      logger.error(`Error processing model request: ${(error as Error).message}`);
+      usageLedger.record(createUsageRecord(provider.name, request, { error, streamedContent: streamed.content }, params.repository));
+      
+      const reason = classifyFailure(error);
+      if (options.signal?.aborted || !reason || !config.get('fallbackOn').includes(reason)) {
+        throw error;
+      }
+      
+      skipped.push({ model, provider: provider.name, reason, error: (error as Error).message });
+      lastError = error;
+      if (index < chain.length - 1) {
+        logger.warn(`${model} failed (${reason}); falling back to ${chain[index + 1]}`);
+      }
+    } finally {
+      reservation.release();
+    }
+  }
+  
+  if (skipped.length <= 1) {
+    throw lastError ?? new Error(`No available provider supports any of: ${chain.join(', ')}`);
+  }
+  
+  throw new Error(`Every model in the fallback chain failed: ` +
+                  skipped.map(entry => `${entry.model} (${entry.reason}: ${entry.error})`).join('; '));
+}
+
+/**
+ * Stream one model's output, assembling the final response
+ * @param streamed Collects the output as it arrives, so it is known if the call fails
+ */
+async function streamModelResponse(
+  provider: ModelProvider,
+  params: Omit<Parameters<typeof processModelRequest>[0], 'provider' | 'fallbacks' | 'contextFor'>,
+  options: { signal?: AbortSignal; onProgress?: ProgressCallback },
+  streamed: { content: string } = { content: '' }
+): Promise<ModelResponse> {
+  logger.info(`Using ${provider.name} provider with model: ${params.model}`);
+  
+  // Stream the model output
+  logger.info('Sending request to model...');
+  let response: ModelResponse | undefined;
+  
+  for await (const chunk of provider.streamText({
+    model: params.model,
+    prompt: params.prompt,
+    systemPrompt: params.systemPrompt,
+    context: params.context,
+    contextKey: params.contextKey,
+    cacheContext: params.cacheContext,
+    history: params.history,
+    temperature: params.temperature,
+    maxTokens: params.maxTokens,
+    safety: params.safety,
+    signal: options.signal,
+  })) {
+    // Stop consuming the stream once the caller gives up
+    options.signal?.throwIfAborted();
+    
+    if (chunk.text) {
+      streamed.content += chunk.text;
+      options.onProgress?.(chunk.text, streamed.content.length);
+    }
+    
+    if (chunk.response) {
+      response = chunk.response;
+    }
   }
+  
+  logger.success('Received response from model');
+  return response ?? {
+    content: streamed.content,
+    model: params.model,
+    provider: provider.name,
+  };
 }
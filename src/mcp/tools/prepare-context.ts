@@ -1,24 +1,46 @@
 import { z } from 'zod';
 import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../../utils/logger.js';
-import { prepareContext } from '../../context/packager.js';
-import { config } from '../../utils/config.js';
+import { ContextManifest, prepareContext } from '../../context/packager.js';
+import { storageBackendTypes } from '../../storage/index.js';
+import { contextFormats } from '../../context/formatters.js';
+import { redactionModes, RedactionReport } from '../../context/redaction.js';
+import { githubSourceSchema } from '../../context/github-source.js';
+import { detailSchema } from '../../context/outline.js';
+import { hasGitSelection } from '../../context/git-selection.js';
 
 /**
  * Schema for the prepare_context tool parameters
  */
 export const prepareContextParamsSchema = z.object({
-  // Required parameters
-  paths: z.array(z.string()).describe('Array of file or directory paths to include'),
+  // Inputs (at least one of paths, source or a git selector is required)
+  paths: z.array(z.string()).optional().describe('Array of file or directory paths to include'),
+  source: githubSourceSchema.optional().describe('GitHub repository, ref and paths to package files from instead of the local working directory'),
+  diff: z.string().optional().describe('Package the changes in a revision range of the local repository, e.g. main...HEAD'),
+  staged: z.boolean().optional().describe('Package the changes staged in the local repository'),
+  commit: z.string().optional().describe('Package the changes made by a commit in the local repository'),
+  surrounding: z.boolean().optional().describe('With diff, staged or commit, also include unchanged files in the directories of the changed files'),
   
   // Optional parameters
   comment: z.string().optional().describe('Comment to append to the end of the context'),
+  include: z.array(z.string()).optional().describe('Glob patterns; only files found in directories that match one are included'),
+  exclude: z.array(z.string()).optional().describe('Glob patterns for files found in directories to leave out'),
+  maxFileSize: z.number().int().positive().optional().describe('Skip files larger than this many bytes (defaults to MAX_FILE_SIZE)'),
+  detail: detailSchema.optional().describe('Detail level (full, outline or names) for every file, or a map of paths and glob patterns to levels; the last matching entry wins'),
+  maxContextTokens: z.number().int().positive().optional().describe('Token budget for the packaged context; lower-priority files that do not fit are omitted'),
+  model: z.string().optional().describe('Model the context is prepared for; selects the token counting strategy'),
+  outputFormat: z.enum(contextFormats).optional().describe('Format of the packaged context (text, xml, json or markdown)'),
+  redaction: z.enum(redactionModes).optional().describe('How detected secrets are handled: redact (replace with placeholders), strict (fail) or off; defaults to REDACTION_MODE'),
+  redactionAllowlist: z.array(z.string()).optional().describe('Regular expressions for detected values that are not secrets and may be kept'),
   owner: z.string().optional().describe('GitHub repository owner'),
   repo: z.string().optional().describe('GitHub repository name'),
   branch: z.string().optional().describe('GitHub repository branch'),
   outputPath: z.string().optional().describe('Path where output should be saved locally'),
-  githubPath: z.string().optional().describe('Path in the GitHub repository to save the file'),
+  storage: z.enum(storageBackendTypes).optional().describe('Storage backend for the context (github, local, git or ephemeral)'),
+  storagePath: z.string().optional().describe('Path in the storage backend to save the file'),
+  githubPath: z.string().optional().describe('Deprecated alias for storagePath'),
+  reuse: z.boolean().optional().describe('Reference an identical context stored earlier instead of saving another copy (defaults to true unless storagePath is given)'),
 });
 
 export type PrepareContextParams = z.infer<typeof prepareContextParamsSchema>;
@@ -27,50 +49,73 @@ export type PrepareContextParams = z.infer<typeof prepareContextParamsSchema>;
  * Implementation of the prepare_context tool
  * 
  * This tool:
- * 1. Accepts an array of file paths
+ * 1. Accepts file paths, a remote GitHub source and/or a git selection
  * 2. Optionally accepts a comment to append
  * 3. Concatenates the files into a single document
- * 4. Saves the result to GitHub
+ * 4. Saves the result to the selected storage backend
  */
 export async function prepareContextTool(
   params: PrepareContextParams,
-  extra: RequestHandlerExtra
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
 ): Promise<CallToolResult> {
-  logger.info(`prepare_context tool called with paths: ${params.paths.join(', ')}`);
+  logger.info(`prepare_context tool called with paths: ${(params.paths ?? []).join(', ')}` +
+              (params.source ? ` and source: ${params.source.repo}` : ''));
   
   try {
     // Validate parameters
     prepareContextParamsSchema.parse(params);
     
-    // Set defaults from configuration if not provided
-    const owner = params.owner || config.get('defaultOwner');
-    const repo = params.repo || config.get('defaultRepo');
-    
-    // Verify required parameters
-    if (!owner || !repo) {
-      throw new Error('Repository owner and name are required. Provide them as parameters or set OWNER and REPO environment variables.');
+    if ((!params.paths || params.paths.length === 0) && !params.source && !hasGitSelection(params)) {
+      throw new Error('One of paths, source, diff, staged or commit is required');
     }
     
     // Call the context preparation logic
     const result = await prepareContext({
-      paths: params.paths,
+      paths: params.paths ?? [],
+      source: params.source,
+      diff: params.diff,
+      staged: params.staged,
+      commit: params.commit,
+      surrounding: params.surrounding,
       comment: params.comment,
-      owner,
-      repo,
-      branch: params.branch || config.get('defaultBranch'),
+      include: params.include,
+      exclude: params.exclude,
+      maxFileSize: params.maxFileSize,
+      detail: params.detail,
+      maxContextTokens: params.maxContextTokens,
+      model: params.model,
+      outputFormat: params.outputFormat,
+      redaction: params.redaction,
+      redactionAllowlist: params.redactionAllowlist,
+      owner: params.owner,
+      repo: params.repo,
+      branch: params.branch,
       outputPath: params.outputPath,
+      storage: params.storage,
+      storagePath: params.storagePath,
       githubPath: params.githubPath,
-    });
+      reuse: params.reuse,
+    }, extra.signal);
     
     // Format the response
     if (result.success) {
+      // Without persistent storage the context itself is the only useful output
+      const savedTo = result.reused
+        ? `Context unchanged since an earlier call; reusing the copy stored at: ${result.path}\n\n`
+        : result.path
+          ? `Context prepared successfully and saved to: ${result.path}\n\n`
+          : `Context prepared successfully (not persisted, ${result.storage} storage)\n\n`;
+      
       return {
         content: [
           {
             type: 'text',
-            text: `Context prepared successfully and saved to: ${result.path}\n\n` +
+            text: savedTo +
                   `${result.message}\n\n` +
-                  (result.tokenCount ? `Estimated token count: ${result.tokenCount}\n` : '')
+                  (result.tokenCount ? `Estimated token count: ${result.tokenCount} (strategy: ${result.tokenStrategy})\n` : '') +
+                  formatOmittedFiles(result.manifest) +
+                  formatRedactionReport(result.redactionReport) +
+                  (result.path ? '' : `\n${result.content}`)
           }
         ]
       };
@@ -100,3 +145,31 @@ export async function prepareContextTool(
     };
   }
 }
+
+/**
+ * List the files left out of the context, if any
+ */
+function formatOmittedFiles(manifest?: ContextManifest): string {
+  if (!manifest || manifest.omitted.length === 0) {
+    return '';
+  }
+  
+  return `\nOmitted files:\n` +
+         manifest.omitted.map(entry => `- ${entry.path}${entry.reason ? ` (${entry.reason})` : ''}`).join('\n') +
+         '\n';
+}
+
+/**
+ * List the secrets that were redacted (or, in strict mode, would have been), if any
+ */
+export function formatRedactionReport(report?: RedactionReport): string {
+  if (!report || (report.findings.length === 0 && report.allowed === 0)) {
+    return '';
+  }
+  
+  return `\nRedaction report (${report.mode}): ${report.findings.length} secrets redacted` +
+         (report.allowed > 0 ? `, ${report.allowed} allowlisted` : '') +
+         '\n' +
+         report.findings.map(finding => `- ${finding.path}:${finding.line} (${finding.type})`).join('\n') +
+         (report.findings.length > 0 ? '\n' : '');
+}
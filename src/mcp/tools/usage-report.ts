@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../../utils/logger.js';
+import { usageLedger, UsageRecord } from '../../usage/ledger.js';
+import { formatCost, periodStart, spendingBudget } from '../../usage/budget.js';
+
+/**
+ * Schema for the usage_report tool parameters
+ */
+export const usageReportParamsSchema = z.object({
+  since: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('First day to include (YYYY-MM-DD, UTC); defaults to the start of the current month'),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Last day to include (YYYY-MM-DD, UTC); defaults to today'),
+  repository: z.string().optional().describe('Only include delegations for this repository (owner/name)'),
+});
+
+export type UsageReportParams = z.infer<typeof usageReportParamsSchema>;
+
+// Calls, tokens and spend for one row of the report
+interface UsageTotals {
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  // Calls to models without a price, which aren't included in the cost
+  unpriced: number;
+}
+
+/**
+ * Implementation of the usage_report tool
+ *
+ * Summarises the usage ledger for a range of days: totals, spend against
+ * the budgets, and spend by model, day and repository.
+ */
+export async function usageReportTool(
+  params: UsageReportParams,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  logger.info('usage_report tool called');
+
+  try {
+    // Validate parameters
+    usageReportParamsSchema.parse(params);
+
+    const since = params.since ?? periodStart('monthly').toISOString().slice(0, 10);
+    const until = params.until ?? new Date().toISOString().slice(0, 10);
+    if (since > until) {
+      throw new Error(`since (${since}) is after until (${until})`);
+    }
+
+    const records = usageLedger.getRecords(new Date(`${since}T00:00:00Z`)).filter(record =>
+      record.timestamp.slice(0, 10) <= until &&
+      (!params.repository || record.repository === params.repository));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: renderReport(records, since, until, params.repository)
+        }
+      ]
+    };
+  } catch (error) {
+    logger.error(`Error in usage_report tool: ${(error as Error).message}`);
+
+    // Return error result
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${(error as Error).message}`
+        }
+      ],
+      isError: true
+    };
+  }
+}
+
+/**
+ * Render the report as Markdown
+ */
+function renderReport(records: UsageRecord[], since: string, until: string, repository?: string): string {
+  let report = `# Usage report\n\nPeriod: ${since} to ${until} (UTC)` +
+               (repository ? `, repository ${repository}` : '') + '\n\n';
+
+  const budgets = spendingBudget.getStatus();
+  if (budgets.length > 0) {
+    report += 'Budgets:\n' + budgets.map(status =>
+      `- ${status.period === 'daily' ? 'Today' : 'This month'}: ${formatCost(status.spent)} of ${formatCost(status.budget)}`
+    ).join('\n') + '\n\n';
+  }
+
+  if (records.length === 0) {
+    return report + `No delegations were recorded in this period.\n\nLedger: ${usageLedger.getPath()}`;
+  }
+
+  const total = summarise(records);
+  report += `Calls: ${total.calls}` + (total.failed ? ` (${total.failed} failed)` : '') + '\n' +
+            `Tokens: ${total.inputTokens} input, ${total.outputTokens} output\n` +
+            `Cost: ${formatCost(total.cost)}` +
+            (total.unpriced ? ` (excluding ${total.unpriced} ${total.unpriced === 1 ? 'call' : 'calls'} to models without a price)` : '') + '\n';
+
+  report += renderTable('Model', groupBy(records, record => `${record.provider}/${record.model}`));
+  report += renderTable('Day', groupBy(records, record => record.timestamp.slice(0, 10)));
+  report += renderTable('Repository', groupBy(records, record => record.repository ?? '(none)'));
+
+  return report + `\nLedger: ${usageLedger.getPath()}`;
+}
+
+// Group records by a key, keeping the keys in sorted order
+function groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const group = key(record);
+    groups.set(group, [...(groups.get(group) ?? []), record]);
+  }
+  return new Map([...groups].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function summarise(records: UsageRecord[]): UsageTotals {
+  return records.reduce((totals, record) => ({
+    calls: totals.calls + 1,
+    failed: totals.failed + (record.status === 'failed' ? 1 : 0),
+    inputTokens: totals.inputTokens + record.inputTokens,
+    outputTokens: totals.outputTokens + record.outputTokens,
+    cost: totals.cost + (record.cost ?? 0),
+    unpriced: totals.unpriced + (record.cost === undefined && (record.status === 'ok' || record.inputTokens > 0) ? 1 : 0),
+  }), { calls: 0, failed: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 });
+}
+
+// A section with one row per group
+function renderTable(heading: string, groups: Map<string, UsageRecord[]>): string {
+  const rows = [...groups].map(([group, records]) => {
+    const totals = summarise(records);
+    const cost = formatCost(totals.cost) + (totals.unpriced ? ` (${totals.unpriced} unpriced)` : '');
+    return `| ${group} | ${totals.calls} | ${totals.inputTokens} | ${totals.outputTokens} | ${cost} |`;
+  });
+
+  return `\n## By ${heading.toLowerCase()}\n\n` +
+         `| ${heading} | Calls | Input tokens | Output tokens | Cost |\n` +
+         '|---|---|---|---|---|\n' +
+         rows.join('\n') + '\n';
+}
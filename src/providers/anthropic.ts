@@ -1,30 +1,232 @@
-[FOR REMOVAL] This file is not needed for the focused Gemini implementation.
-
-import { BaseModelProvider, ModelRequestOptions, ModelResponse } from './base.js';
+import { BaseModelProvider, ModelRequestOptions, ModelResponse, ModelStreamChunk, ProviderApiError } from './base.js';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { readServerSentEvents } from '../utils/sse.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 1024;
 
-// This implementation is a placeholder and not fully implemented
+// Messages API message format
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Subset of the Messages API response that we use
+interface AnthropicMessageResponse {
+  id?: string;
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string | null;
+  stop_sequence?: string | null;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+// Subset of a Messages API stream event that we use
+interface AnthropicStreamEvent {
+  type: string;
+  message?: AnthropicMessageResponse;
+  delta?: { type?: string; text?: string; stop_reason?: string | null; stop_sequence?: string | null };
+  usage?: { output_tokens?: number };
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ */
 export class AnthropicProvider extends BaseModelProvider {
   readonly name = 'anthropic';
-  
+  private apiKey: string | undefined;
+  private baseUrl: string;
+
   constructor() {
     super();
+    this.apiKey = config.get('anthropicApiKey');
+    this.baseUrl = config.get('anthropicBaseUrl').replace(/\/+$/, '');
   }
-  
+
   isAvailable(): boolean {
-    return false;
+    return !!this.apiKey;
   }
-  
+
   async getAvailableModels(): Promise<string[]> {
-    return [];
+    if (!this.isAvailable()) {
+      return [];
+    }
+
+    // Aliases that always point at the latest snapshot of each model
+    return [
+      'claude-opus-4-0',
+      'claude-sonnet-4-0',
+      'claude-3-7-sonnet-latest',
+      'claude-3-5-sonnet-latest',
+      'claude-3-5-haiku-latest',
+    ];
   }
-  
+
   getDefaultModel(): string {
-    return '';
+    return 'claude-sonnet-4-0';
   }
-  
+
   async generateText(options: ModelRequestOptions): Promise<ModelResponse> {
-    throw new Error('Anthropic provider is not implemented');
+    if (!this.isAvailable()) {
+      throw new Error('Anthropic provider is not available. Check your ANTHROPIC_API_KEY.');
+    }
+
+    this.validateOptions(options);
+    const model = this.resolveModelName(options.model);
+    logger.debug(`Generating text with model: ${model}`);
+
+    let body: AnthropicMessageResponse;
+    try {
+      const response = await this.postMessages(this.buildRequestBody(options, model), options.signal);
+      body = await response.json() as AnthropicMessageResponse;
+    } catch (error) {
+      logger.error(`Anthropic API error: ${(error as Error).message}`);
+      throw this.toApiError('Anthropic API error', error);
+    }
+
+    return this.toModelResponse(body, model);
+  }
+
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    if (!this.isAvailable()) {
+      throw new Error('Anthropic provider is not available. Check your ANTHROPIC_API_KEY.');
+    }
+
+    this.validateOptions(options);
+    const model = this.resolveModelName(options.model);
+    logger.debug(`Streaming text with model: ${model}`);
+
+    let content = '';
+    let message: AnthropicMessageResponse = {};
+    let outputTokens: number | undefined;
+
+    try {
+      const response = await this.postMessages({ ...this.buildRequestBody(options, model), stream: true }, options.signal);
+
+      for await (const event of readServerSentEvents(response)) {
+        const data = JSON.parse(event.data) as AnthropicStreamEvent;
+
+        if (data.type === 'message_start' && data.message) {
+          message = data.message;
+        } else if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta' && data.delta.text) {
+          content += data.delta.text;
+          yield { text: data.delta.text };
+        } else if (data.type === 'message_delta') {
+          message.stop_reason = data.delta?.stop_reason ?? message.stop_reason;
+          message.stop_sequence = data.delta?.stop_sequence ?? message.stop_sequence;
+          outputTokens = data.usage?.output_tokens ?? outputTokens;
+        } else if (data.type === 'error') {
+          throw new Error(data.error?.message || 'stream error');
+        }
+      }
+    } catch (error) {
+      logger.error(`Anthropic API error: ${(error as Error).message}`);
+      throw this.toApiError('Anthropic API error', error);
+    }
+
+    yield {
+      text: '',
+      response: this.toModelResponse({
+        ...message,
+        content: [{ type: 'text', text: content }],
+        usage: { ...message.usage, output_tokens: outputTokens ?? message.usage?.output_tokens },
+      }, model),
+    };
+  }
+
+  async supportsModel(model: string): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    const resolved = this.resolveModelName(model);
+    const models = await this.getAvailableModels();
+    return models.includes(resolved) || resolved.startsWith('claude-');
+  }
+
+  // Build the Messages API request body shared by streaming and non-streaming calls
+  private buildRequestBody(options: ModelRequestOptions, model: string): Record<string, unknown> {
+    const messages: AnthropicMessage[] = [
+      ...(options.history ?? []),
+      { role: 'user', content: this.promptWithContext(options) },
+    ];
+
+    return {
+      model,
+      messages,
+      system: options.systemPrompt,
+      max_tokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature,
+      top_p: options.topP,
+      top_k: options.topK,
+      stop_sequences: options.stopSequences && options.stopSequences.length > 0 ? options.stopSequences : undefined,
+    };
+  }
+
+  // POST to the Messages endpoint, throwing on non-2xx responses
+  private async postMessages(requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey!,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(requestBody),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw ProviderApiError.fromResponse(this.name, `${response.status} ${await this.readErrorMessage(response)}`, response);
+    }
+
+    return response;
+  }
+
+  // Map a Messages API response onto the standard response shape
+  private toModelResponse(message: AnthropicMessageResponse, model: string): ModelResponse {
+    const content = (message.content ?? [])
+      .filter(block => block.type === 'text' && block.text)
+      .map(block => block.text)
+      .join('');
+
+    const promptTokens = message.usage?.input_tokens;
+    const completionTokens = message.usage?.output_tokens;
+
+    return {
+      content,
+      model: message.model || model,
+      provider: this.name,
+      tokenUsage: {
+        prompt: promptTokens,
+        completion: completionTokens,
+        total: promptTokens !== undefined && completionTokens !== undefined
+          ? promptTokens + completionTokens
+          : undefined,
+      },
+      finishReason: message.stop_reason ?? undefined,
+      truncated: message.stop_reason === 'max_tokens',
+      metadata: {
+        id: message.id,
+        stopSequence: message.stop_sequence ?? undefined,
+      },
+    };
+  }
+
+  // Extract the error message from an Anthropic error body, falling back to the status text
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const body = await response.json() as { error?: { type?: string; message?: string } };
+      return body.error?.message || response.statusText;
+    } catch (error) {
+      return response.statusText;
+    }
   }
 }
@@ -2,6 +2,8 @@
  * Base types and interfaces for model providers
  */
 
+import { SafetySetting } from './safety.js';
+
 // Standard response from a model call
 export interface ModelResponse {
   content: string;
@@ -12,15 +14,40 @@ export interface ModelResponse {
     completion?: number;
     total?: number;
   };
+  // Provider's reason for stopping, e.g. stop, length, end_turn or STOP
   finishReason?: string;
+  // Whether generation stopped because it reached the output token limit
+  truncated?: boolean;
   metadata?: Record<string, any>;
 }
 
+// A piece of streamed model output
+export interface ModelStreamChunk {
+  // Text generated since the previous chunk
+  text: string;
+  // Assembled response, set on the final chunk only
+  response?: ModelResponse;
+}
+
+// A prior turn in a multi-turn conversation
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 // Standard request options for all models
 export interface ModelRequestOptions {
   model: string;
   prompt: string;
   systemPrompt?: string;
+  // Packaged context sent ahead of the prompt; providers that can cache it may do so
+  context?: string;
+  // Identifies what the context was built from, so a cached copy can be replaced when it changes
+  contextKey?: string;
+  // Whether the provider may cache the context (provider configuration decides when unset)
+  cacheContext?: boolean;
+  // Earlier turns of the conversation, oldest first, sent before the prompt
+  history?: ConversationMessage[];
   temperature?: number;
   maxTokens?: number;
   topP?: number;
@@ -28,7 +55,79 @@ export interface ModelRequestOptions {
   stopSequences?: string[];
   presencePenalty?: number;
   frequencyPenalty?: number;
+  // Safety filter thresholds, for providers that have them
+  safety?: SafetySetting;
+  // Milliseconds to wait for a response (or, when streaming, for each chunk); defaults to DEFAULT_TIMEOUT
   timeout?: number;
+  // Aborts the request, e.g. when the client cancels the tool call
+  signal?: AbortSignal;
+  // Called when the request starts and stops waiting in a provider's queue, so that the wait can be left out of the timeout
+  onQueueWait?: (waiting: boolean) => void;
+}
+
+// What is known about a failed API call
+export interface ProviderApiErrorDetails {
+  // HTTP status of the response
+  status?: number;
+  // Delay asked for by a Retry-After header
+  retryAfterMs?: number;
+  // Whether the request never got a response, e.g. the connection failed
+  network?: boolean;
+}
+
+// Error from a provider's API
+export class ProviderApiError extends Error {
+  constructor(readonly provider: string, message: string, readonly details: ProviderApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ProviderApiError';
+  }
+
+  // Error for a non-2xx response, carrying its status and Retry-After delay
+  static fromResponse(provider: string, message: string, response: Response): ProviderApiError {
+    return new ProviderApiError(provider, message, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    });
+  }
+}
+
+// Thrown when a provider call runs past its timeout
+export class ProviderTimeoutError extends Error {
+  constructor(readonly provider: string, readonly timeout: number) {
+    super(`${provider} request timed out after ${timeout}ms`);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Thrown when a provider's safety filters block the prompt or the response
+export class ContentBlockedError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly target: 'prompt' | 'response',
+    // Provider's reason, e.g. SAFETY or PROHIBITED_CONTENT
+    readonly reason: string,
+    // Categories that triggered the block, if the provider says
+    readonly categories: string[] = []
+  ) {
+    super(`The ${target} was blocked by ${provider} safety filters: ${reason}` +
+          (categories.length > 0 ? ` (${categories.join(', ')})` : ''));
+    this.name = 'ContentBlockedError';
+  }
 }
 
 // Base provider interface
@@ -58,10 +157,21 @@ export interface ModelProvider {
    */
   generateText(options: ModelRequestOptions): Promise<ModelResponse>;
   
+  /**
+   * Send a request to the model and yield output chunks as they arrive.
+   * The final chunk carries the assembled response.
+   */
+  streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk>;
+  
   /**
    * Check if a specific model is supported by this provider
    */
   supportsModel(model: string): Promise<boolean>;
+  
+  /**
+   * Count tokens with the provider's own tokenizer, for providers that expose one
+   */
+  countTokens?(text: string, model: string, signal?: AbortSignal): Promise<number>;
 }
 
 // Base provider class with common functionality
@@ -74,6 +184,12 @@ export abstract class BaseModelProvider implements ModelProvider {
   abstract getDefaultModel(): string;
   abstract generateText(options: ModelRequestOptions): Promise<ModelResponse>;
   
+  // Default implementation for providers without streaming support: a single final chunk
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    const response = await this.generateText(options);
+    yield { text: response.content, response };
+  }
+  
   // Default implementation that can be overridden
   async supportsModel(model: string): Promise<boolean> {
     if (!this.isAvailable()) {
@@ -82,7 +198,7 @@ export abstract class BaseModelProvider implements ModelProvider {
     
     try {
       const availableModels = await this.getAvailableModels();
-      return availableModels.includes(model);
+      return availableModels.includes(this.resolveModelName(model));
     } catch (error) {
       // If we can't get available models, assume the model isn't supported
       return false;
@@ -100,6 +216,34 @@ export abstract class BaseModelProvider implements ModelProvider {
     }
   }
   
+  // Helper to strip this provider's prefix from a model name (e.g., 'openai/gpt-4' -> 'gpt-4')
+  protected resolveModelName(model: string): string {
+    const prefix = `${this.name}/`;
+    return model.toLowerCase().startsWith(prefix) ? model.slice(prefix.length) : model;
+  }
+  
+  // Helper to put the context ahead of the prompt for providers that send them together
+  protected promptWithContext(options: ModelRequestOptions): string {
+    return options.context ? `${options.context}\n\n${options.prompt}` : options.prompt;
+  }
+  
+  // Helper to wrap an error from an API call under a provider label, keeping its status and
+  // Retry-After. Aborts, timeouts and content blocks are passed through unchanged.
+  protected toApiError(label: string, error: unknown): Error {
+    if (error instanceof ContentBlockedError || error instanceof ProviderTimeoutError ||
+        (error instanceof Error && error.name === 'AbortError')) {
+      return error;
+    }
+
+    const message = `${label}: ${(error as Error).message}`;
+    if (error instanceof ProviderApiError) {
+      return new ProviderApiError(this.name, message, error.details);
+    }
+
+    // fetch rejects with a TypeError when there is no response at all
+    return new ProviderApiError(this.name, message, { network: error instanceof TypeError });
+  }
+  
   // Helper to create a basic response object
   protected createResponse(content: string, model: string): ModelResponse {
     return {
@@ -110,6 +254,38 @@ export abstract class BaseModelProvider implements ModelProvider {
   }
 }
 
+// Base class for providers that add behaviour around another provider's calls
+export abstract class ProviderWrapper implements ModelProvider {
+  readonly name: string;
+  countTokens?: (text: string, model: string, signal?: AbortSignal) => Promise<number>;
+
+  constructor(protected readonly provider: ModelProvider) {
+    this.name = provider.name;
+    if (provider.countTokens) {
+      this.countTokens = provider.countTokens.bind(provider);
+    }
+  }
+
+  abstract generateText(options: ModelRequestOptions): Promise<ModelResponse>;
+  abstract streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk>;
+
+  isAvailable(): boolean {
+    return this.provider.isAvailable();
+  }
+
+  getAvailableModels(): Promise<string[]> {
+    return this.provider.getAvailableModels();
+  }
+
+  getDefaultModel(): string {
+    return this.provider.getDefaultModel();
+  }
+
+  supportsModel(model: string): Promise<boolean> {
+    return this.provider.supportsModel(model);
+  }
+}
+
 // Provider registry to manage available providers
 export class ProviderRegistry {
   private static instance: ProviderRegistry;
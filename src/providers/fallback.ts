@@ -0,0 +1,90 @@
+import { ContentBlockedError, ProviderApiError, ProviderTimeoutError } from './base.js';
+
+// Kinds of failure that can make a call move on to the next model in its fallback chain
+export const failoverReasons = ['quota', 'overload', 'context_too_long', 'safety'] as const;
+
+export type FailoverReason = typeof failoverReasons[number];
+
+// A model in a fallback chain that failed, or that no available provider supports, and why
+export interface SkippedModel {
+  model: string;
+  // 'none' when no available provider supports the model
+  provider: string;
+  reason: FailoverReason | 'unavailable';
+  error: string;
+}
+
+// How the providers word a prompt that doesn't fit the model's context window
+const CONTEXT_TOO_LONG = /context (length|window)|too long|too many tokens|maximum (context|number of tokens)|input token count/i;
+
+/**
+ * Why a model call failed, if it is a failure another model might not have
+ */
+export function classifyFailure(error: unknown): FailoverReason | undefined {
+  if (error instanceof ContentBlockedError) {
+    return 'safety';
+  }
+
+  if (error instanceof ProviderTimeoutError) {
+    return 'overload';
+  }
+
+  if (!(error instanceof ProviderApiError)) {
+    return undefined;
+  }
+
+  const status = error.details.status;
+  if (status === 429) {
+    return 'quota';
+  }
+
+  if (status === 413 || (status === 400 && CONTEXT_TOO_LONG.test(error.message))) {
+    return 'context_too_long';
+  }
+
+  if (status !== undefined && [500, 502, 503, 504, 529].includes(status)) {
+    return 'overload';
+  }
+
+  return undefined;
+}
+
+/**
+ * The models to try for a call, in order: the model itself, then its
+ * configured fallbacks, or the ones given for the call instead
+ * @param model Requested model
+ * @param chains Configured fallbacks by model
+ * @param override Fallback models for this call, or false to use none
+ */
+export function resolveFallbackChain(
+  model: string,
+  chains: Record<string, string[]>,
+  override?: boolean | string[]
+): string[] {
+  if (override === false) {
+    return [model];
+  }
+
+  const fallbacks = Array.isArray(override)
+    ? override
+    : chains[model] ?? chains[model.toLowerCase()] ?? [];
+
+  return [model, ...fallbacks.filter(fallback => fallback !== model)];
+}
+
+/**
+ * Parse fallback chains from the environment, e.g.
+ * `gemini-1.5-pro -> gemini-1.5-flash -> openai/gpt-4o-mini; gpt-4o -> gpt-4o-mini`
+ */
+export function parseFallbackChains(value: string | undefined): Record<string, string[]> {
+  const chains: Record<string, string[]> = {};
+
+  for (const chain of (value ?? '').split(';')) {
+    const [model, ...fallbacks] = chain.split('->').map(part => part.trim()).filter(Boolean);
+    if (model && fallbacks.length > 0) {
+      chains[model] = fallbacks;
+    }
+  }
+
+  return chains;
+}
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * A Gemini cached-content handle created for a context
+ */
+export interface CachedContentHandle {
+  // Resource name, e.g. cachedContents/abc123
+  name: string;
+  model: string;
+  // Hash of the cached context and model
+  hash: string;
+  // When the API drops the cached content (RFC 3339)
+  expireTime: string;
+}
+
+// Handles this close to expiry are replaced rather than reused
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * Cached-content handles created by the Gemini provider, kept in
+ * `<tempDirectory>/gemini-cache.json` so they survive restarts.
+ *
+ * Handles are stored by slot: the model plus whatever the context was built
+ * from. A slot holds one handle at a time, so when the context behind a slot
+ * changes its old handle is replaced.
+ */
+export class GeminiCacheRegistry {
+  private static instance: GeminiCacheRegistry;
+  private indexPath: string;
+  private handles?: Record<string, CachedContentHandle>;
+
+  private constructor() {
+    this.indexPath = path.resolve(process.cwd(), config.get('tempDirectory'), 'gemini-cache.json');
+  }
+
+  public static getInstance(): GeminiCacheRegistry {
+    if (!GeminiCacheRegistry.instance) {
+      GeminiCacheRegistry.instance = new GeminiCacheRegistry();
+    }
+    return GeminiCacheRegistry.instance;
+  }
+
+  /**
+   * The handle in a slot, if any, whether or not it is still usable
+   */
+  public get(slot: string): CachedContentHandle | undefined {
+    return this.load()[slot];
+  }
+
+  /**
+   * Whether a handle was created for this context and hasn't expired
+   */
+  public isUsable(handle: CachedContentHandle, hash: string): boolean {
+    return handle.hash === hash && Date.parse(handle.expireTime) - Date.now() > EXPIRY_MARGIN_MS;
+  }
+
+  public set(slot: string, handle: CachedContentHandle): void {
+    this.load()[slot] = handle;
+    this.save();
+  }
+
+  public delete(slot: string): void {
+    delete this.load()[slot];
+    this.save();
+  }
+
+  private load(): Record<string, CachedContentHandle> {
+    if (this.handles) {
+      return this.handles;
+    }
+
+    try {
+      this.handles = fs.existsSync(this.indexPath)
+        ? JSON.parse(fs.readFileSync(this.indexPath, 'utf-8')) as Record<string, CachedContentHandle>
+        : {};
+    } catch (error) {
+      logger.warn(`Ignoring unreadable Gemini cache index ${this.indexPath}: ${(error as Error).message}`);
+      this.handles = {};
+    }
+    return this.handles;
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.indexPath), { recursive: true });
+      fs.writeFileSync(this.indexPath, JSON.stringify(this.handles, null, 2), 'utf-8');
+    } catch (error) {
+      logger.warn(`Failed to write Gemini cache index: ${(error as Error).message}`);
+    }
+  }
+}
+
+// Export a default instance
+export const geminiCacheRegistry = GeminiCacheRegistry.getInstance();
@@ -1,42 +1,91 @@
-import { BaseModelProvider, ModelRequestOptions, ModelResponse } from './base.js';
+import crypto from 'crypto';
+import {
+  BaseModelProvider,
+  ContentBlockedError,
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamChunk,
+  ProviderApiError,
+  ProviderTimeoutError,
+} from './base.js';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
-import { GoogleGenerativeAI, GenerativeModel, GenerationConfig } from '@google/generative-ai';
+import { readServerSentEvents } from '../utils/sse.js';
+import { countTokens } from '../utils/token-counter.js';
+import { CachedContentHandle, geminiCacheRegistry } from './gemini-cache.js';
+import { resolveSafetyThresholds } from './safety.js';
 
+// Finish reasons that mean the response was cut off by a content filter
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Gemini API content format
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: Array<{ text: string }>;
+}
+
+// Safety rating of a prompt or candidate for one harm category
+interface SafetyRating {
+  category?: string;
+  probability?: string;
+  blocked?: boolean;
+}
+
+// Subset of a generateContent response (or streamed chunk) that we use
+interface GenerateContentResponse {
+  responseId?: string;
+  modelVersion?: string;
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+    safetyRatings?: SafetyRating[];
+  }>;
+  promptFeedback?: {
+    blockReason?: string;
+    safetyRatings?: SafetyRating[];
+  };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+    cachedContentTokenCount?: number;
+  };
+}
+
+// A cached-content handle used for one request
+interface ContextCacheUse extends CachedContentHandle {
+  slot: string;
+  // Whether the handle already existed
+  hit: boolean;
+}
+
+/**
+ * Provider for the Gemini API (generativelanguage REST endpoints).
+ *
+ * The base URL is configurable, so the provider can be pointed at a local
+ * stub. Large contexts can be uploaded once as cached content and
+ * referenced by later requests until their TTL runs out.
+ */
 export class GeminiProvider extends BaseModelProvider {
   readonly name = 'gemini';
-  private client: GoogleGenerativeAI | null = null;
-  
+  private apiKey: string | undefined;
+  private baseUrl: string;
+
   constructor() {
     super();
-    this.initClient();
-  }
-  
-  private initClient(): void {
-    const apiKey = config.get('geminiApiKey');
-    if (apiKey) {
-      try {
-        this.client = new GoogleGenerativeAI(apiKey);
-        logger.debug('Gemini client initialized successfully');
-      } catch (error) {
-        logger.error('Failed to initialize Gemini client', error);
-        this.client = null;
-      }
-    } else {
-      logger.warn('No Gemini API key provided');
-      this.client = null;
-    }
+    this.apiKey = config.get('geminiApiKey');
+    this.baseUrl = config.get('geminiBaseUrl').replace(/\/+$/, '');
   }
-  
+
   isAvailable(): boolean {
-    return this.client !== null;
+    return !!this.apiKey;
   }
-  
+
   async getAvailableModels(): Promise<string[]> {
     if (!this.isAvailable()) {
       return [];
     }
-    
+
     // Hard-coded list of models since Gemini API doesn't provide a model list endpoint
     return [
       'gemini-pro',
@@ -46,106 +95,350 @@ export class GeminiProvider extends BaseModelProvider {
       'gemini-1.5-flash',
     ];
   }
-  
+
   getDefaultModel(): string {
     return 'gemini-pro';
   }
-  
+
   async generateText(options: ModelRequestOptions): Promise<ModelResponse> {
     if (!this.isAvailable()) {
       throw new Error('Gemini provider is not available. Check your API key.');
     }
-    
+
     this.validateOptions(options);
-    logger.debug(`Generating text with model: ${options.model}`);
-    
+    const modelName = this.resolveModelName(options.model);
+    logger.debug(`Generating text with model: ${modelName}`);
+
     try {
-      const generationConfig: GenerationConfig = {
-        temperature: options.temperature ?? 0.7,
-        topK: options.topK ?? 40,
-        topP: options.topP ?? 0.95,
-        maxOutputTokens: options.maxTokens ?? 1024,
-        stopSequences: options.stopSequences,
-      };
-      
-      const model = this.client!.getGenerativeModel({ model: options.model });
-      
-      // Handle system prompt if provided
-      if (options.systemPrompt) {
-        // For models that support system prompts, we need to use the chat interface
-        // First, create a chat with the system prompt as the first message
-        const chat = model.startChat({
-          generationConfig,
-          // System instructions are passed through the history in recent versions
-        });
-        
-        // Send the system prompt as a system message if possible, otherwise use a workaround
-        try {
-          // Combined approach - prepend to the prompt
-          const systemPrefixedPrompt = `[System: ${options.systemPrompt}]\n\n${options.prompt}`;
-          const result = await chat.sendMessage(systemPrefixedPrompt);
-          const response = result.response;
-          
-          return {
-            content: response.text(),
-            model: options.model,
-            provider: this.name,
-            tokenUsage: {
-              // The API doesn't return token usage info
-              prompt: undefined,
-              completion: undefined,
-              total: undefined,
-            },
-          };
-        } catch (error) {
-          logger.warn(`Failed to use chat with system prompt, falling back to direct completion: ${(error as Error).message}`);
-          // Fall back to direct completion if chat fails
-          const systemPrefixedPrompt = `[System: ${options.systemPrompt}]\n\n${options.prompt}`;
-          const result = await model.generateContent(systemPrefixedPrompt);
-          const response = result.response;
-          
-          return {
-            content: response.text(),
-            model: options.model,
-            provider: this.name,
-            tokenUsage: {
-              prompt: undefined,
-              completion: undefined,
-              total: undefined,
-            },
-          };
+      const { response, cache } = await this.postGenerate('generateContent', options, modelName);
+      const body = await response.json() as GenerateContentResponse;
+      this.checkBlocked(body);
+      return this.toModelResponse(body, this.extractText(body), modelName, cache);
+    } catch (error) {
+      logger.error(`Gemini API error: ${(error as Error).message}`);
+      throw this.toApiError('Gemini API error', error);
+    }
+  }
+
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    if (!this.isAvailable()) {
+      throw new Error('Gemini provider is not available. Check your API key.');
+    }
+
+    this.validateOptions(options);
+    const modelName = this.resolveModelName(options.model);
+    logger.debug(`Streaming text with model: ${modelName}`);
+
+    let content = '';
+    let last: GenerateContentResponse = {};
+    let cache: ContextCacheUse | undefined;
+    try {
+      const generated = await this.postGenerate('streamGenerateContent', options, modelName);
+      cache = generated.cache;
+
+      for await (const event of readServerSentEvents(generated.response)) {
+        const chunk = JSON.parse(event.data) as GenerateContentResponse;
+        this.checkBlocked(chunk);
+        last = { ...last, ...chunk };
+
+        const text = this.extractText(chunk);
+        if (text) {
+          content += text;
+          yield { text };
         }
-      } else {
-        // Direct completion without system prompt
-        const result = await model.generateContent({
-          contents: [{ role: 'user', parts: [{ text: options.prompt }] }],
-          generationConfig,
-        });
-        
-        const response = result.response;
-        
-        return {
-          content: response.text(),
-          model: options.model,
-          provider: this.name,
-          tokenUsage: {
-            // The API doesn't return token usage info
-            prompt: undefined,
-            completion: undefined,
-            total: undefined,
-          },
-        };
       }
     } catch (error) {
       logger.error(`Gemini API error: ${(error as Error).message}`);
-      throw new Error(`Gemini API error: ${(error as Error).message}`);
+      throw this.toApiError('Gemini API error', error);
+    }
+
+    yield {
+      text: '',
+      response: this.toModelResponse(last, content, modelName, cache),
+    };
+  }
+
+  async countTokens(text: string, model: string, signal?: AbortSignal): Promise<number> {
+    if (!this.isAvailable()) {
+      throw new Error('Gemini provider is not available. Check your API key.');
+    }
+
+    // Give up after DEFAULT_TIMEOUT, so that a stalled endpoint can't hold up packaging.
+    // The caller's signal is combined by hand, since AbortSignal.any needs Node 18.17.
+    const timeout = config.get('defaultTimeout');
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new ProviderTimeoutError(this.name, timeout)), timeout);
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    try {
+      const response = await this.post(`${this.modelPath(this.resolveModelName(model))}:countTokens`, {
+        contents: [{ role: 'user', parts: [{ text }] }],
+      }, controller.signal);
+
+      if (!response.ok) {
+        throw new Error(`Gemini API error: ${response.status} ${await this.readErrorMessage(response)}`);
+      }
+
+      const body = await response.json() as { totalTokens?: number };
+      return body.totalTokens ?? 0;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
-  
+
   async supportsModel(model: string): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    const modelName = this.resolveModelName(model);
     const models = await this.getAvailableModels();
-    return models.includes(model) || 
-           model.startsWith('gemini-') || 
-           model.startsWith('models/gemini-');
+    return models.includes(modelName) ||
+           modelName.startsWith('gemini-') ||
+           modelName.startsWith('models/gemini-');
+  }
+
+  // Send a generate request, referencing cached context when there is some.
+  // If the cached content has gone from the API the context is sent inline instead.
+  private async postGenerate(
+    action: 'generateContent' | 'streamGenerateContent',
+    options: ModelRequestOptions,
+    modelName: string
+  ): Promise<{ response: Response; cache?: ContextCacheUse }> {
+    const path = `${this.modelPath(modelName)}:${action}` + (action === 'streamGenerateContent' ? '?alt=sse' : '');
+    let cache = await this.resolveContextCache(options, modelName);
+    let response = await this.post(path, this.buildRequestBody(options, cache), options.signal);
+
+    if (cache && (response.status === 403 || response.status === 404)) {
+      logger.warn(`Cached content ${cache.name} is no longer available; sending the context inline`);
+      // Discard the error body so the connection is released before the retry
+      await response.body?.cancel();
+      geminiCacheRegistry.delete(cache.slot);
+      cache = undefined;
+      response = await this.post(path, this.buildRequestBody(options), options.signal);
+    }
+
+    if (!response.ok) {
+      throw ProviderApiError.fromResponse(this.name, `${response.status} ${await this.readErrorMessage(response)}`, response);
+    }
+
+    return { response, cache };
+  }
+
+  // Find or create the cached-content handle for the request's context, if it should be cached.
+  // A handle is reused while the context hash is unchanged and its TTL hasn't run out.
+  private async resolveContextCache(options: ModelRequestOptions, modelName: string): Promise<ContextCacheUse | undefined> {
+    if (!options.context || !(options.cacheContext ?? config.get('geminiContextCache'))) {
+      return undefined;
+    }
+
+    if (countTokens(options.context) < config.get('geminiCacheMinTokens')) {
+      logger.debug('Context is below GEMINI_CACHE_MIN_TOKENS; sending it inline');
+      return undefined;
+    }
+
+    // The system instruction is cached along with the context, so it is part of the hash
+    const hash = crypto.createHash('sha256')
+      .update(JSON.stringify([modelName, options.systemPrompt ?? '', options.context]))
+      .digest('hex');
+    const slot = `${modelName}:${options.contextKey ?? hash}`;
+
+    const existing = geminiCacheRegistry.get(slot);
+    if (existing && geminiCacheRegistry.isUsable(existing, hash)) {
+      logger.debug(`Reusing cached content ${existing.name}`);
+      return { ...existing, slot, hit: true };
+    }
+
+    // The context changed or the handle expired, so it is replaced
+    if (existing) {
+      await this.deleteCachedContent(existing.name);
+      geminiCacheRegistry.delete(slot);
+    }
+
+    try {
+      const ttl = config.get('geminiCacheTtl');
+      const response = await this.post('cachedContents', {
+        model: this.modelPath(modelName),
+        contents: [{ role: 'user', parts: [{ text: options.context }] }],
+        systemInstruction: this.buildSystemInstruction(options),
+        ttl: `${ttl}s`,
+      }, options.signal);
+
+      if (!response.ok) {
+        throw ProviderApiError.fromResponse(this.name, `${response.status} ${await this.readErrorMessage(response)}`, response);
+      }
+
+      const created = await response.json() as { name?: string; expireTime?: string };
+      if (!created.name) {
+        throw new Error('response has no cached content name');
+      }
+
+      const handle: CachedContentHandle = {
+        name: created.name,
+        model: modelName,
+        hash,
+        expireTime: created.expireTime ?? new Date(Date.now() + ttl * 1000).toISOString(),
+      };
+      geminiCacheRegistry.set(slot, handle);
+      logger.debug(`Created cached content ${handle.name} (expires ${handle.expireTime})`);
+
+      return { ...handle, slot, hit: false };
+    } catch (error) {
+      logger.warn(`Failed to cache context, sending it inline: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  // Delete cached content that is no longer needed; it expires anyway, so failures are only logged
+  private async deleteCachedContent(name: string): Promise<void> {
+    try {
+      const response = await fetch(`${this.baseUrl}/${name}`, {
+        method: 'DELETE',
+        headers: { 'x-goog-api-key': this.apiKey! },
+      });
+
+      if (!response.ok && response.status !== 404) {
+        logger.debug(`Failed to delete cached content ${name}: ${response.status} ${await this.readErrorMessage(response)}`);
+      }
+    } catch (error) {
+      logger.debug(`Failed to delete cached content ${name}: ${(error as Error).message}`);
+    }
+  }
+
+  // Build the generateContent request body shared by streaming and non-streaming calls.
+  // With cached content the context and system instruction are already on the server.
+  private buildRequestBody(options: ModelRequestOptions, cache?: ContextCacheUse): Record<string, unknown> {
+    const contents: GeminiContent[] = (options.history ?? []).map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }],
+    }));
+    contents.push({
+      role: 'user',
+      parts: [{ text: cache ? options.prompt : this.promptWithContext(options) }],
+    });
+
+    const safety = options.safety ?? config.get('geminiSafety');
+
+    return {
+      contents,
+      cachedContent: cache?.name,
+      systemInstruction: cache ? undefined : this.buildSystemInstruction(options),
+      safetySettings: safety && resolveSafetyThresholds(safety).map(([category, threshold]) => ({
+        category: `HARM_CATEGORY_${category.toUpperCase()}`,
+        threshold: threshold.toUpperCase(),
+      })),
+      generationConfig: {
+        temperature: options.temperature ?? 0.7,
+        topK: options.topK ?? 40,
+        topP: options.topP ?? 0.95,
+        maxOutputTokens: options.maxTokens ?? 1024,
+        stopSequences: options.stopSequences,
+        presencePenalty: options.presencePenalty,
+        frequencyPenalty: options.frequencyPenalty,
+      },
+    };
+  }
+
+  private buildSystemInstruction(options: ModelRequestOptions): GeminiContent | undefined {
+    return options.systemPrompt
+      ? { role: 'user', parts: [{ text: options.systemPrompt }] }
+      : undefined;
+  }
+
+  // Throw if the prompt was blocked, or the response was stopped by a content filter
+  private checkBlocked(body: GenerateContentResponse): void {
+    if (body.promptFeedback?.blockReason) {
+      throw new ContentBlockedError(this.name, 'prompt', body.promptFeedback.blockReason,
+        this.blockedCategories(body.promptFeedback.safetyRatings));
+    }
+
+    const candidate = body.candidates?.[0];
+    if (candidate?.finishReason && BLOCKED_FINISH_REASONS.includes(candidate.finishReason)) {
+      throw new ContentBlockedError(this.name, 'response', candidate.finishReason,
+        this.blockedCategories(candidate.safetyRatings));
+    }
+  }
+
+  // Categories flagged as blocked (or, failing that, rated HIGH), e.g. HARM_CATEGORY_HARASSMENT -> 'harassment: HIGH'
+  private blockedCategories(ratings: SafetyRating[] = []): string[] {
+    const flagged = ratings.filter(rating => rating.blocked);
+    return (flagged.length > 0 ? flagged : ratings.filter(rating => rating.probability === 'HIGH'))
+      .map(rating => (rating.category ?? 'unknown').replace(/^HARM_CATEGORY_/, '').toLowerCase() +
+                     (rating.probability ? `: ${rating.probability}` : ''));
+  }
+
+  // POST to an API path relative to the base URL
+  private async post(path: string, requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    return fetch(`${this.baseUrl}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey!,
+      },
+      body: JSON.stringify(requestBody),
+      signal,
+    });
+  }
+
+  // Map a generateContent response onto the standard response shape
+  private toModelResponse(
+    body: GenerateContentResponse,
+    content: string,
+    modelName: string,
+    cache?: ContextCacheUse
+  ): ModelResponse {
+    const usage = body.usageMetadata;
+    const finishReason = body.candidates?.[0]?.finishReason;
+
+    return {
+      content,
+      model: modelName,
+      provider: this.name,
+      tokenUsage: {
+        prompt: usage?.promptTokenCount,
+        completion: usage?.candidatesTokenCount,
+        total: usage?.totalTokenCount,
+      },
+      finishReason,
+      truncated: finishReason === 'MAX_TOKENS',
+      metadata: {
+        id: body.responseId,
+        modelVersion: body.modelVersion,
+        contextCache: cache && {
+          name: cache.name,
+          hit: cache.hit,
+          expireTime: cache.expireTime,
+          cachedTokens: body.usageMetadata?.cachedContentTokenCount,
+        },
+      },
+    };
+  }
+
+  // Text of the first candidate
+  private extractText(body: GenerateContentResponse): string {
+    return (body.candidates?.[0]?.content?.parts ?? [])
+      .map(part => part.text ?? '')
+      .join('');
+  }
+
+  // Model names are addressed as models/<name>
+  private modelPath(modelName: string): string {
+    return modelName.startsWith('models/') ? modelName : `models/${modelName}`;
+  }
+
+  // Extract the error message from a Gemini error body, falling back to the status text
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const body = await response.json() as { error?: { message?: string; status?: string } };
+      return body.error?.message || response.statusText;
+    } catch (error) {
+      return response.statusText;
+    }
   }
-}
\ No newline at end of file
+}
@@ -1,9 +1,16 @@
 import { providerRegistry } from './base.js';
 import { GeminiProvider } from './gemini.js';
+import { OpenAIProvider } from './openai.js';
+import { AnthropicProvider } from './anthropic.js';
+import { ResilientProvider } from './resilience.js';
+import { ScheduledProvider } from './scheduler.js';
 import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
 
 /**
- * Initialize only the Gemini provider and register it with the provider registry
+ * Initialize the model providers and register them with the provider registry,
+ * each queued for its rate limits and wrapped with retries and timeouts, so
+ * that every attempt waits for a slot of its own
  */
 export function initializeProviders(): void {
   logger.info('Initializing Gemini provider');
@@ -12,7 +19,7 @@ export function initializeProviders(): void {
   const geminiProvider = new GeminiProvider();
   
   // Register provider
-  providerRegistry.registerProvider(geminiProvider);
+  providerRegistry.registerProvider(new ResilientProvider(new ScheduledProvider(geminiProvider)));
   
   // Log provider availability
   if (geminiProvider.isAvailable()) {
@@ -20,40 +27,72 @@ export function initializeProviders(): void {
   } else {
     logger.warn('Gemini provider is not available. Please check your GEMINI_API_KEY.');
   }
+  
+  logger.info('Initializing OpenAI provider');
+  
+  const openaiProvider = new OpenAIProvider();
+  providerRegistry.registerProvider(new ResilientProvider(new ScheduledProvider(openaiProvider)));
+  
+  if (openaiProvider.isAvailable()) {
+    logger.success(`OpenAI provider is available (${config.get('openaiBaseUrl')})`);
+  } else {
+    logger.debug('OpenAI provider is not available. Set OPENAI_API_KEY or OPENAI_BASE_URL to enable it.');
+  }
+  
+  logger.info('Initializing Anthropic provider');
+  
+  const anthropicProvider = new AnthropicProvider();
+  providerRegistry.registerProvider(new ResilientProvider(new ScheduledProvider(anthropicProvider)));
+  
+  if (anthropicProvider.isAvailable()) {
+    logger.success('Anthropic provider is available');
+  } else {
+    logger.debug('Anthropic provider is not available. Set ANTHROPIC_API_KEY to enable it.');
+  }
 }
 
 /**
- * Get the Gemini provider or throw an error if it's not available
+ * Get a provider by name (defaults to Gemini) or throw an error if it's not available
  */
-export async function getProvider(providerName?: string) {
-  // We only support Gemini, so ignore the providerName parameter
-  const provider = providerRegistry.getProvider('gemini');
+export async function getProvider(providerName: string = 'gemini') {
+  const provider = providerRegistry.getProvider(providerName);
   if (!provider) {
-    throw new Error('Gemini provider not found');
+    throw new Error(`Provider not found: ${providerName}`);
   }
   
   if (!provider.isAvailable()) {
-    throw new Error('Gemini provider is not available. Check your GEMINI_API_KEY.');
+    throw new Error(`Provider ${provider.name} is not available. Check its API key configuration.`);
   }
   
   return provider;
 }
 
 /**
- * Get all available providers (only Gemini in this case)
+ * Get all available providers
  */
 export function getAvailableProviders() {
   return providerRegistry.getAvailableProviders();
 }
 
 /**
- * Find the appropriate provider for a model (only Gemini models are supported)
+ * Find the provider for a model, accepting 'provider/model' prefixes (e.g., 'openai/gpt-4o').
+ * Throws an error listing the supported models if no available provider supports it.
  */
 export async function findProviderForModel(model: string) {
-  // Only support Gemini models
-  if (!model.startsWith('gemini-')) {
-    logger.warn(`Model ${model} is not a Gemini model. Only Gemini models are supported.`);
+  const provider = await providerRegistry.findProviderForModel(model);
+  if (provider) {
+    return provider;
   }
   
-  return providerRegistry.getProvider('gemini');
+  const available = getAvailableProviders();
+  if (available.length === 0) {
+    throw new Error(`No provider supports model "${model}": no providers are available. Check your API key configuration.`);
+  }
+  
+  const supported = await Promise.all(available.map(async availableProvider => {
+    const models = await availableProvider.getAvailableModels();
+    return `${availableProvider.name}: ${models.join(', ')}`;
+  }));
+  
+  throw new Error(`No provider supports model "${model}". Supported models:\n- ${supported.join('\n- ')}`);
 }
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+
+// Schema for the rate and concurrency limits of one provider; limits left out don't apply
+export const providerLimitsSchema = z.object({
+  requestsPerMinute: z.number().int().positive().optional(),
+  tokensPerMinute: z.number().int().positive().optional(),
+  maxConcurrency: z.number().int().positive().optional(),
+});
+
+export type ProviderLimits = z.infer<typeof providerLimitsSchema>;
+
+// Short names used for the limits in the environment
+const LIMIT_NAMES: Record<string, keyof ProviderLimits> = {
+  rpm: 'requestsPerMinute',
+  tpm: 'tokensPerMinute',
+  concurrency: 'maxConcurrency',
+};
+
+/**
+ * Parse limits by provider from the environment, e.g.
+ * `gemini: rpm=15, tpm=1000000, concurrency=2; openai: rpm=500`
+ */
+export function parseProviderLimits(value: string | undefined): Record<string, ProviderLimits> {
+  const limits: Record<string, ProviderLimits> = {};
+
+  for (const entry of (value ?? '').split(';')) {
+    const [provider, settings] = entry.split(':').map(part => part.trim());
+    if (!provider || !settings) {
+      continue;
+    }
+
+    limits[provider.toLowerCase()] = Object.fromEntries(
+      settings.split(',')
+        .map(setting => setting.split('=').map(part => part.trim()))
+        .filter(([name, limit]) => name && limit)
+        .map(([name, limit]) => [LIMIT_NAMES[name.toLowerCase()] ?? name, Number(limit)])
+    );
+  }
+
+  return limits;
+}
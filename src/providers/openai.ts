@@ -1,30 +1,286 @@
-[FOR REMOVAL] This file is not needed for the focused Gemini implementation.
-
-import { BaseModelProvider, ModelRequestOptions, ModelResponse } from './base.js';
+import { BaseModelProvider, ModelRequestOptions, ModelResponse, ModelStreamChunk, ProviderApiError } from './base.js';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { readServerSentEvents } from '../utils/sse.js';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// Models assumed when the model list can't be fetched
+const DEFAULT_MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-4', 'gpt-3.5-turbo'];
+
+// How long the default models stand in before listing the models is tried again
+const MODEL_LIST_RETRY_MS = 60 * 1000;
 
-// This implementation is a placeholder and not fully implemented
+// Chat Completions message format
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Subset of the Chat Completions response that we use
+interface ChatCompletionResponse {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
+// Subset of a streamed Chat Completions chunk that we use
+interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: ChatCompletionResponse['usage'] | null;
+}
+
+/**
+ * Provider for the OpenAI Chat Completions API.
+ *
+ * The base URL is configurable, so the same provider also works with local
+ * OpenAI-compatible servers such as llama.cpp, vLLM and Ollama.
+ */
 export class OpenAIProvider extends BaseModelProvider {
   readonly name = 'openai';
-  
+  private apiKey: string | undefined;
+  private baseUrl: string;
+  // Listed models are kept for the life of the process, the defaults only until the next retry
+  private modelCache: { models: string[]; expiresAt: number } | null = null;
+
   constructor() {
     super();
+    this.apiKey = config.get('openaiApiKey');
+    this.baseUrl = config.get('openaiBaseUrl').replace(/\/+$/, '');
+  }
+
+  // Custom base URLs usually point at local servers that don't need a key
+  private isCustomEndpoint(): boolean {
+    return this.baseUrl !== DEFAULT_BASE_URL;
   }
-  
+
   isAvailable(): boolean {
-    return false;
+    return !!this.apiKey || this.isCustomEndpoint();
   }
-  
+
   async getAvailableModels(): Promise<string[]> {
-    return [];
+    if (!this.isAvailable()) {
+      return [];
+    }
+
+    if (this.modelCache && this.modelCache.expiresAt > Date.now()) {
+      return this.modelCache.models;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(config.get('defaultTimeout')),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${response.statusText}`);
+      }
+
+      const body = await response.json() as { data?: Array<{ id: string }> };
+      this.modelCache = { models: (body.data ?? []).map(model => model.id), expiresAt: Infinity };
+    } catch (error) {
+      logger.warn(`Failed to list OpenAI models, using defaults: ${(error as Error).message}`);
+      this.modelCache = { models: DEFAULT_MODELS, expiresAt: Date.now() + MODEL_LIST_RETRY_MS };
+    }
+
+    return this.modelCache.models;
   }
-  
+
   getDefaultModel(): string {
-    return '';
+    return 'gpt-4o-mini';
   }
-  
+
   async generateText(options: ModelRequestOptions): Promise<ModelResponse> {
-    throw new Error('OpenAI provider is not implemented');
+    if (!this.isAvailable()) {
+      throw new Error('OpenAI provider is not available. Set OPENAI_API_KEY or OPENAI_BASE_URL.');
+    }
+
+    this.validateOptions(options);
+    const model = this.resolveModelName(options.model);
+    logger.debug(`Generating text with model: ${model} via ${this.baseUrl}`);
+
+    let body: ChatCompletionResponse;
+    try {
+      const response = await this.postChatCompletion(this.buildRequestBody(options, model), options.signal);
+      body = await response.json() as ChatCompletionResponse;
+    } catch (error) {
+      logger.error(`OpenAI API error: ${(error as Error).message}`);
+      throw this.toApiError('OpenAI API error', error);
+    }
+
+    const choice = body.choices?.[0];
+    if (!choice) {
+      throw new Error('OpenAI API error: response contained no choices');
+    }
+
+    return {
+      content: choice.message?.content ?? '',
+      model: body.model || model,
+      provider: this.name,
+      tokenUsage: {
+        prompt: body.usage?.prompt_tokens,
+        completion: body.usage?.completion_tokens,
+        total: body.usage?.total_tokens,
+      },
+      finishReason: choice.finish_reason ?? undefined,
+      truncated: choice.finish_reason === 'length',
+      metadata: {
+        id: body.id,
+        baseUrl: this.baseUrl,
+      },
+    };
+  }
+
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    if (!this.isAvailable()) {
+      throw new Error('OpenAI provider is not available. Set OPENAI_API_KEY or OPENAI_BASE_URL.');
+    }
+
+    this.validateOptions(options);
+    const model = this.resolveModelName(options.model);
+    logger.debug(`Streaming text with model: ${model} via ${this.baseUrl}`);
+
+    let content = '';
+    let id: string | undefined;
+    let responseModel: string | undefined;
+    let finishReason: string | undefined;
+    let usage: ChatCompletionResponse['usage'];
+
+    try {
+      const response = await this.postChatCompletion({
+        ...this.buildRequestBody(options, model),
+        stream: true,
+        stream_options: { include_usage: true },
+      }, options.signal);
+
+      for await (const event of readServerSentEvents(response)) {
+        if (event.data === '[DONE]') {
+          break;
+        }
+
+        const chunk = JSON.parse(event.data) as ChatCompletionChunk;
+        id = id || chunk.id;
+        responseModel = responseModel || chunk.model;
+        usage = chunk.usage || usage;
+
+        const choice = chunk.choices?.[0];
+        finishReason = choice?.finish_reason || finishReason;
+
+        const text = choice?.delta?.content;
+        if (text) {
+          content += text;
+          yield { text };
+        }
+      }
+    } catch (error) {
+      logger.error(`OpenAI API error: ${(error as Error).message}`);
+      throw this.toApiError('OpenAI API error', error);
+    }
+
+    yield {
+      text: '',
+      response: {
+        content,
+        model: responseModel || model,
+        provider: this.name,
+        tokenUsage: {
+          prompt: usage?.prompt_tokens,
+          completion: usage?.completion_tokens,
+          total: usage?.total_tokens,
+        },
+        finishReason,
+        truncated: finishReason === 'length',
+        metadata: {
+          id,
+          baseUrl: this.baseUrl,
+        },
+      },
+    };
+  }
+
+  async supportsModel(model: string): Promise<boolean> {
+    if (!this.isAvailable()) {
+      return false;
+    }
+
+    // Explicitly prefixed models are always routed here; local servers name models freely
+    if (model.toLowerCase().startsWith(`${this.name}/`)) {
+      return true;
+    }
+
+    const models = await this.getAvailableModels();
+    return models.includes(model) ||
+           /^(gpt-|o1|o3|o4|chatgpt-)/.test(model);
+  }
+
+  // Build the Chat Completions request body shared by streaming and non-streaming calls
+  private buildRequestBody(options: ModelRequestOptions, model: string): Record<string, unknown> {
+    const messages: ChatMessage[] = [];
+    if (options.systemPrompt) {
+      messages.push({ role: 'system', content: options.systemPrompt });
+    }
+    messages.push(...(options.history ?? []));
+    messages.push({ role: 'user', content: this.promptWithContext(options) });
+
+    return {
+      model,
+      messages,
+      temperature: options.temperature,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      stop: options.stopSequences && options.stopSequences.length > 0 ? options.stopSequences : undefined,
+      presence_penalty: options.presencePenalty,
+      frequency_penalty: options.frequencyPenalty,
+    };
+  }
+
+  // POST to the Chat Completions endpoint, throwing on non-2xx responses
+  private async postChatCompletion(requestBody: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify(requestBody),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw ProviderApiError.fromResponse(this.name, `${response.status} ${await this.readErrorMessage(response)}`, response);
+    }
+
+    return response;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  // Extract the error message from an OpenAI-style error body, falling back to the status text
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const body = await response.json() as { error?: { message?: string } | string };
+      if (typeof body.error === 'string') {
+        return body.error;
+      }
+      return body.error?.message || response.statusText;
+    } catch (error) {
+      return response.statusText;
+    }
   }
 }
@@ -0,0 +1,166 @@
+import {
+  ModelRequestOptions,
+  ModelResponse,
+  ModelStreamChunk,
+  ProviderApiError,
+  ProviderTimeoutError,
+  ProviderWrapper,
+} from './base.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+// Statuses worth retrying: request timeout, rate limiting, server errors and overload (529 is Anthropic's)
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 529];
+
+// Longest backoff between attempts; a Retry-After header may ask for longer
+const MAX_BACKOFF_MS = 30 * 1000;
+
+/**
+ * Wraps a provider with retries and timeouts:
+ *
+ * - Calls that fail with a retryable status, or get no response at all, are
+ *   retried up to MAX_RETRIES times. Each retry waits for Retry-After when
+ *   the API sent one, and otherwise backs off exponentially with full jitter.
+ * - Each attempt is aborted after its timeout (`options.timeout`, defaulting
+ *   to DEFAULT_TIMEOUT); a stream only times out when no chunk arrives for
+ *   that long. Time an attempt spends queued for a slot doesn't count.
+ * - `options.signal` aborts the attempt in flight and any wait for a retry.
+ *
+ * A stream that fails after yielding output is not retried, since the
+ * output can't be taken back.
+ */
+export class ResilientProvider extends ProviderWrapper {
+  async generateText(options: ModelRequestOptions): Promise<ModelResponse> {
+    for (let attempt = 1; ; attempt++) {
+      const guard = new AttemptGuard(this.name, options);
+      try {
+        const response = await this.provider.generateText(guard.attemptOptions);
+        return withAttempts(response, attempt);
+      } catch (error) {
+        await this.beforeRetry(guard.explain(error), attempt, options.signal);
+      } finally {
+        guard.dispose();
+      }
+    }
+  }
+
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    for (let attempt = 1; ; attempt++) {
+      const guard = new AttemptGuard(this.name, options);
+      let started = false;
+      try {
+        for await (const chunk of this.provider.streamText(guard.attemptOptions)) {
+          started = true;
+          yield chunk.response ? { ...chunk, response: withAttempts(chunk.response, attempt) } : chunk;
+          guard.restart();
+        }
+        return;
+      } catch (error) {
+        const failure = guard.explain(error);
+        if (started) {
+          throw failure;
+        }
+        await this.beforeRetry(failure, attempt, options.signal);
+      } finally {
+        guard.dispose();
+      }
+    }
+  }
+
+  // Wait before the next attempt, or rethrow the error if it isn't worth retrying
+  private async beforeRetry(error: unknown, attempt: number, signal?: AbortSignal): Promise<void> {
+    const maxRetries = config.get('maxRetries');
+    if (signal?.aborted || attempt > maxRetries || !isRetryable(error)) {
+      throw error;
+    }
+
+    const delay = retryDelay(error as ProviderApiError, attempt);
+    logger.warn(`${this.name} request failed (${(error as Error).message}); ` +
+                `retrying in ${delay}ms (attempt ${attempt + 1} of ${maxRetries + 1})`);
+    await sleep(delay, signal);
+  }
+}
+
+/**
+ * Abort signal for one attempt, fired by the caller's signal or by the timeout
+ */
+class AttemptGuard {
+  private controller = new AbortController();
+  private timer?: NodeJS.Timeout;
+  private timedOut = false;
+  private readonly timeout: number;
+  private readonly onAbort = () => this.controller.abort(this.options.signal?.reason);
+
+  constructor(private readonly provider: string, private readonly options: ModelRequestOptions) {
+    this.timeout = options.timeout ?? config.get('defaultTimeout');
+
+    if (options.signal?.aborted) {
+      this.onAbort();
+    } else {
+      options.signal?.addEventListener('abort', this.onAbort, { once: true });
+    }
+    this.restart();
+  }
+
+  // The request for this attempt, aborted by the guard and paused while it is queued
+  get attemptOptions(): ModelRequestOptions {
+    return {
+      ...this.options,
+      signal: this.controller.signal,
+      onQueueWait: waiting => waiting ? clearTimeout(this.timer) : this.restart(),
+    };
+  }
+
+  // Start the timeout over, e.g. when a chunk has arrived
+  restart(): void {
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort(new ProviderTimeoutError(this.provider, this.timeout));
+    }, this.timeout);
+  }
+
+  // An error from an attempt, or the timeout if that is what ended it
+  explain(error: unknown): unknown {
+    return this.timedOut ? new ProviderTimeoutError(this.provider, this.timeout) : error;
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.options.signal?.removeEventListener('abort', this.onAbort);
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  return error instanceof ProviderApiError &&
+         (!!error.details.network || RETRYABLE_STATUSES.includes(error.details.status ?? 0));
+}
+
+// Retry-After when given, otherwise a random delay up to the exponential backoff ("full jitter")
+function retryDelay(error: ProviderApiError, attempt: number): number {
+  if (error.details.retryAfterMs !== undefined) {
+    return Math.ceil(error.details.retryAfterMs);
+  }
+
+  const backoff = Math.min(MAX_BACKOFF_MS, config.get('retryBaseDelay') * 2 ** (attempt - 1));
+  return Math.round(Math.random() * backoff);
+}
+
+// Record how many attempts a response took, if more than one
+function withAttempts(response: ModelResponse, attempt: number): ModelResponse {
+  return attempt > 1 ? { ...response, metadata: { ...response.metadata, attempts: attempt } } : response;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+// Harm categories a provider's safety filters can be tuned for
+export const safetyCategories = [
+  'harassment',
+  'hate_speech',
+  'sexually_explicit',
+  'dangerous_content',
+  'civic_integrity',
+] as const;
+
+// How readily content in a category is blocked, from never to at low probability of harm
+export const safetyThresholds = [
+  'off',
+  'block_none',
+  'block_only_high',
+  'block_medium_and_above',
+  'block_low_and_above',
+] as const;
+
+export type SafetyCategory = typeof safetyCategories[number];
+export type SafetyThreshold = typeof safetyThresholds[number];
+
+// Schema for one threshold for every category, or thresholds by category
+export const safetySchema = z.union([
+  z.enum(safetyThresholds),
+  z.record(z.enum(safetyCategories), z.enum(safetyThresholds)),
+]);
+
+export type SafetySetting = z.infer<typeof safetySchema>;
+
+/**
+ * Thresholds by category for a safety setting; categories left out keep the
+ * provider's default
+ */
+export function resolveSafetyThresholds(setting: SafetySetting): Array<[SafetyCategory, SafetyThreshold]> {
+  if (typeof setting === 'string') {
+    return safetyCategories.map(category => [category, setting]);
+  }
+
+  return Object.entries(setting) as Array<[SafetyCategory, SafetyThreshold]>;
+}
+
+/**
+ * Parse a safety setting from the environment: either a threshold, or
+ * comma-separated `category=threshold` pairs
+ */
+export function parseSafetySetting(value: string | undefined): SafetySetting | undefined {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+
+  if (!value.includes('=')) {
+    return value.trim() as SafetyThreshold;
+  }
+
+  return Object.fromEntries(
+    value.split(',')
+      .map(entry => entry.split('=').map(part => part.trim()))
+      .filter(([category, threshold]) => category && threshold)
+  ) as SafetySetting;
+}
@@ -0,0 +1,262 @@
+import { ModelRequestOptions, ModelResponse, ModelStreamChunk, ProviderWrapper } from './base.js';
+import { ProviderLimits } from './limits.js';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { estimateRequestTokens } from '../utils/token-counter.js';
+
+// Requests-per-minute and tokens-per-minute limits are enforced over a sliding window of this length
+const WINDOW_MS = 60 * 1000;
+
+// Permission to make one call; released when the call has finished
+export interface Slot {
+  // How long the call waited in the queue
+  waitMs: number;
+  // Give the slot back, correcting the call's token estimate with what it actually used
+  release(tokensUsed?: number): void;
+}
+
+// A call started within the last minute, and the tokens it is counted for
+interface WindowEntry {
+  startedAt: number;
+  tokens: number;
+}
+
+// A call waiting for its turn
+interface Waiter {
+  tokens: number;
+  enqueuedAt: number;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (slot: Slot) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * First-come, first-served queue of calls to one provider. A call starts once
+ * it is at the head of the queue and starting it would keep the provider
+ * within its concurrency, requests-per-minute and tokens-per-minute limits;
+ * calls behind it wait even if they would fit, so large calls aren't starved.
+ */
+class ProviderQueue {
+  private active = 0;
+  private waiting: Waiter[] = [];
+  private window: WindowEntry[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private readonly provider: string, private readonly limits: () => ProviderLimits) {}
+
+  acquire(tokens: number, signal?: AbortSignal): Promise<Slot> {
+    signal?.throwIfAborted();
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens, enqueuedAt: Date.now(), signal, resolve, reject };
+
+      // A cancelled call leaves the queue, which may let the calls behind it start
+      waiter.onAbort = () => {
+        this.waiting = this.waiting.filter(other => other !== waiter);
+        reject(signal!.reason);
+        this.pump();
+      };
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+
+      this.waiting.push(waiter);
+      this.pump();
+
+      if (this.waiting.includes(waiter)) {
+        logger.debug(`${this.provider} request queued (${this.waiting.length} waiting, ${this.active} in flight)`);
+      }
+    });
+  }
+
+  // Start as many calls from the head of the queue as the limits allow
+  private pump(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const now = Date.now();
+    this.window = this.window.filter(entry => entry.startedAt > now - WINDOW_MS);
+
+    while (this.waiting.length > 0) {
+      const delay = this.delayFor(this.waiting[0], now);
+      if (delay === undefined) {
+        // At the concurrency limit: the next release pumps again
+        return;
+      }
+      if (delay > 0) {
+        this.timer = setTimeout(() => this.pump(), delay);
+        return;
+      }
+
+      this.start(this.waiting.shift()!, now);
+    }
+  }
+
+  /**
+   * Milliseconds until a call can start under the rate limits, or undefined
+   * while it has to wait for a call in flight to finish
+   */
+  private delayFor(waiter: Waiter, now: number): number | undefined {
+    const limits = this.limits();
+
+    if (limits.maxConcurrency !== undefined && this.active >= limits.maxConcurrency) {
+      return undefined;
+    }
+
+    let delay = 0;
+
+    const { requestsPerMinute, tokensPerMinute } = limits;
+    if (requestsPerMinute !== undefined && this.window.length >= requestsPerMinute) {
+      delay = this.expiry(this.window[this.window.length - requestsPerMinute], now);
+    }
+
+    if (tokensPerMinute !== undefined) {
+      // Wait for the oldest calls to leave the window until this one fits; a call larger
+      // than the whole limit goes alone once the window is empty
+      let tokens = this.window.reduce((sum, entry) => sum + entry.tokens, 0) + waiter.tokens;
+      for (const entry of this.window) {
+        if (tokens <= tokensPerMinute) {
+          break;
+        }
+        tokens -= entry.tokens;
+        delay = Math.max(delay, this.expiry(entry, now));
+      }
+    }
+
+    return delay;
+  }
+
+  // Milliseconds until a call leaves the window
+  private expiry(entry: WindowEntry, now: number): number {
+    return Math.max(1, entry.startedAt + WINDOW_MS - now);
+  }
+
+  private start(waiter: Waiter, now: number): void {
+    waiter.signal?.removeEventListener('abort', waiter.onAbort!);
+
+    const entry: WindowEntry = { startedAt: now, tokens: waiter.tokens };
+    this.window.push(entry);
+    this.active++;
+
+    const waitMs = now - waiter.enqueuedAt;
+    if (waitMs > 0) {
+      logger.info(`${this.provider} request waited ${waitMs}ms for its rate limits`);
+    }
+
+    let released = false;
+    waiter.resolve({
+      waitMs,
+      release: (tokensUsed?: number) => {
+        if (released) {
+          return;
+        }
+        released = true;
+        if (tokensUsed !== undefined) {
+          entry.tokens = tokensUsed;
+        }
+        this.active--;
+        this.pump();
+      },
+    });
+  }
+}
+
+/**
+ * Schedules model calls per provider, so that parallel delegations queue for
+ * the provider's rate and concurrency limits instead of failing with quota
+ * errors. Limits come from PROVIDER_LIMITS and MAX_CONCURRENCY.
+ */
+export class RequestScheduler {
+  private static instance: RequestScheduler;
+  private queues: Map<string, ProviderQueue> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): RequestScheduler {
+    if (!RequestScheduler.instance) {
+      RequestScheduler.instance = new RequestScheduler();
+    }
+    return RequestScheduler.instance;
+  }
+
+  /**
+   * Wait for a provider's limits to allow a call
+   * @param provider Provider name
+   * @param tokens Estimated tokens the call will use, prompt and output
+   * @param signal Aborts the wait
+   */
+  public acquire(provider: string, tokens: number, signal?: AbortSignal): Promise<Slot> {
+    let queue = this.queues.get(provider);
+    if (!queue) {
+      queue = new ProviderQueue(provider, () => this.getLimits(provider));
+      this.queues.set(provider, queue);
+    }
+    return queue.acquire(tokens, signal);
+  }
+
+  /**
+   * A provider's configured limits, with the default concurrency limit
+   */
+  public getLimits(provider: string): ProviderLimits {
+    return {
+      maxConcurrency: config.get('maxConcurrency'),
+      ...config.get('providerLimits')[provider],
+    };
+  }
+}
+
+// Export a default instance
+export const requestScheduler = RequestScheduler.getInstance();
+
+/**
+ * Wraps a provider so that each call waits for a slot from the request
+ * scheduler. The time spent waiting is reported as `metadata.queueWaitMs`.
+ */
+export class ScheduledProvider extends ProviderWrapper {
+  async generateText(options: ModelRequestOptions): Promise<ModelResponse> {
+    const slot = await acquireSlot(this.name, options);
+    try {
+      const response = await this.provider.generateText(options);
+      slot.release(response.tokenUsage?.total);
+      return withQueueWait(response, slot.waitMs);
+    } finally {
+      slot.release();
+    }
+  }
+
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    const slot = await acquireSlot(this.name, options);
+    try {
+      for await (const chunk of this.provider.streamText(options)) {
+        if (chunk.response) {
+          slot.release(chunk.response.tokenUsage?.total);
+          yield { ...chunk, response: withQueueWait(chunk.response, slot.waitMs) };
+        } else {
+          yield chunk;
+        }
+      }
+    } finally {
+      slot.release();
+    }
+  }
+}
+
+// Wait for a slot, telling the caller while the call is queued
+async function acquireSlot(provider: string, options: ModelRequestOptions): Promise<Slot> {
+  options.onQueueWait?.(true);
+  try {
+    return await requestScheduler.acquire(provider, estimateTokens(options), options.signal);
+  } finally {
+    options.onQueueWait?.(false);
+  }
+}
+
+// Tokens a call is expected to use: everything it sends, plus its output
+function estimateTokens(options: ModelRequestOptions): number {
+  const { input, output } = estimateRequestTokens(options);
+  return input + output;
+}
+
+// Record how long a call waited in the queue, if it waited at all
+function withQueueWait(response: ModelResponse, waitMs: number): ModelResponse {
+  return waitMs > 0 ? { ...response, metadata: { ...response.metadata, queueWaitMs: waitMs } } : response;
+}
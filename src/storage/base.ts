@@ -0,0 +1,70 @@
+/**
+ * Base types and interfaces for storage backends
+ */
+
+// Names of the supported storage backends
+export const storageBackendTypes = ['github', 'local', 'git', 'ephemeral'] as const;
+
+export type StorageBackendType = typeof storageBackendTypes[number];
+
+// Result of saving content to a backend
+export interface StoredContent {
+  // Path of the content relative to the backend root
+  path: string;
+  // Human-readable location (URL, file path, git ref), or null if the content was not persisted
+  location: string | null;
+}
+
+// Options used to construct a backend for a single tool call
+export interface StorageOptions {
+  owner?: string;
+  repo?: string;
+  branch?: string;
+}
+
+// Base storage backend interface
+export interface StorageBackend {
+  /**
+   * Name of the backend
+   */
+  readonly name: StorageBackendType;
+
+  /**
+   * Whether content saved to this backend is persisted anywhere
+   */
+  readonly persistent: boolean;
+
+  /**
+   * Save content at the given path, overwriting any existing content
+   */
+  save(path: string, content: string, message: string): Promise<StoredContent>;
+
+  /**
+   * Load content from the given path, or undefined if nothing is stored there
+   */
+  load(path: string): Promise<string | undefined>;
+}
+
+// Base backend class with common functionality
+export abstract class BaseStorageBackend implements StorageBackend {
+  abstract readonly name: StorageBackendType;
+  readonly persistent: boolean = true;
+
+  abstract save(path: string, content: string, message: string): Promise<StoredContent>;
+  abstract load(path: string): Promise<string | undefined>;
+
+  // Helper to normalize a storage path and reject paths that escape the backend root
+  protected normalizePath(storagePath: string): string {
+    const normalized = storagePath
+      .replace(/\\/g, '/')
+      .split('/')
+      .filter(segment => segment !== '' && segment !== '.')
+      .join('/');
+
+    if (!normalized || normalized.split('/').includes('..')) {
+      throw new Error(`Invalid storage path for ${this.name}: ${storagePath}`);
+    }
+
+    return normalized;
+  }
+}
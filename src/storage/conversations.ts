@@ -0,0 +1,88 @@
+import { StorageBackend, StoredContent } from './base.js';
+import { ConversationMessage } from '../providers/base.js';
+
+// A single prompt/response exchange with a delegate model
+export interface ConversationTurn {
+  requestId: string;
+  prompt: string;
+  response: string;
+  model: string;
+  provider: string;
+  timestamp: string;
+}
+
+// Persisted record of a multi-turn conversation
+export interface ConversationRecord {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: ConversationTurn[];
+}
+
+/**
+ * Validate a conversation ID before it is used in a storage path
+ */
+export function validateConversationId(conversationId: string): void {
+  if (!/^[A-Za-z0-9_-]+$/.test(conversationId)) {
+    throw new Error(`Invalid conversation ID: ${conversationId}`);
+  }
+}
+
+/**
+ * Load a conversation record from storage, or undefined if it doesn't exist
+ */
+export async function loadConversation(
+  storage: StorageBackend,
+  conversationId: string
+): Promise<ConversationRecord | undefined> {
+  validateConversationId(conversationId);
+
+  const content = await storage.load(recordPath(conversationId));
+  if (content === undefined) {
+    return undefined;
+  }
+
+  return JSON.parse(content) as ConversationRecord;
+}
+
+/**
+ * Save a conversation record along with a human-readable transcript.
+ * Returns the location of the transcript.
+ */
+export async function saveConversation(
+  storage: StorageBackend,
+  record: ConversationRecord,
+  message: string
+): Promise<StoredContent> {
+  await storage.save(recordPath(record.id), JSON.stringify(record, null, 2), message);
+  return storage.save(`delegate/${record.id}_conversation.txt`, renderConversation(record), message);
+}
+
+/**
+ * Convert the turns of a conversation into chat history for a provider
+ */
+export function toHistory(record: ConversationRecord): ConversationMessage[] {
+  return record.turns.flatMap(turn => [
+    { role: 'user' as const, content: turn.prompt },
+    { role: 'assistant' as const, content: turn.response },
+  ]);
+}
+
+/**
+ * Render a conversation as a readable transcript
+ */
+function renderConversation(record: ConversationRecord): string {
+  let transcript = `# Conversation ${record.id}`;
+
+  record.turns.forEach((turn, index) => {
+    transcript += `\n\n## Turn ${index + 1} (${turn.provider}/${turn.model}, ${turn.timestamp})` +
+                  `\n\n### Prompt\n\n${turn.prompt}` +
+                  `\n\n### Response\n\n${turn.response}`;
+  });
+
+  return transcript;
+}
+
+function recordPath(conversationId: string): string {
+  return `delegate/${conversationId}_conversation.json`;
+}
@@ -0,0 +1,18 @@
+import { BaseStorageBackend, StoredContent } from './base.js';
+
+// Discards everything that is saved; nothing leaves the current tool call
+export class EphemeralStorageBackend extends BaseStorageBackend {
+  readonly name = 'ephemeral';
+  readonly persistent = false;
+
+  async save(storagePath: string, content: string, message: string): Promise<StoredContent> {
+    return {
+      path: this.normalizePath(storagePath),
+      location: null,
+    };
+  }
+
+  async load(storagePath: string): Promise<string | undefined> {
+    return undefined;
+  }
+}
@@ -0,0 +1,134 @@
+import { BaseStorageBackend, StoredContent } from './base.js';
+import { logger } from '../utils/logger.js';
+import { runGit } from '../utils/git.js';
+import { existsSync } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+
+// Times a save is tried when other saves keep moving the branch in between
+const MAX_SAVE_ATTEMPTS = 5;
+
+/**
+ * Stores content as commits in a local bare git repository.
+ *
+ * Commits are built with git plumbing commands against a temporary index,
+ * so no working tree is needed and the repository can be pushed or cloned
+ * like any other. The branch is only moved if it still points at the commit
+ * a save was built on; if another save got there first, the save is built
+ * again on top of it.
+ */
+export class GitStorageBackend extends BaseStorageBackend {
+  readonly name = 'git';
+  private readonly repositoryPath: string;
+
+  constructor(repositoryPath: string, private readonly branch: string) {
+    super();
+    this.repositoryPath = path.resolve(process.cwd(), repositoryPath);
+  }
+
+  async save(storagePath: string, content: string, message: string): Promise<StoredContent> {
+    const normalized = this.normalizePath(storagePath);
+    await this.ensureRepository();
+
+    const ref = `refs/heads/${this.branch}`;
+    const blob = (await this.git(['hash-object', '-w', '--stdin'], { input: content })).trim();
+
+    for (let attempt = 1; ; attempt++) {
+      const parent = await this.resolveRef(ref);
+      const commit = await this.commitBlob(normalized, blob, message, parent);
+
+      try {
+        // Compare and swap; an empty old value means the branch must not exist yet
+        await this.git(['update-ref', ref, commit, parent ?? '']);
+        logger.debug(`Committed ${normalized} to ${this.repositoryPath} as ${commit}`);
+        break;
+      } catch (error) {
+        if (attempt >= MAX_SAVE_ATTEMPTS || (await this.resolveRef(ref)) === parent) {
+          throw error;
+        }
+        logger.debug(`${ref} moved while saving ${normalized}; saving again on top of it`);
+      }
+    }
+
+    return {
+      path: normalized,
+      location: `${this.repositoryPath}#${this.branch}:${normalized}`,
+    };
+  }
+
+  async load(storagePath: string): Promise<string | undefined> {
+    const normalized = this.normalizePath(storagePath);
+
+    if (!existsSync(this.repositoryPath) || !(await this.resolveRef(`refs/heads/${this.branch}`))) {
+      return undefined;
+    }
+
+    try {
+      return await this.git(['show', `${this.branch}:${normalized}`]);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // Commit the tree of the parent commit (if any) with the blob added at the path
+  private async commitBlob(normalized: string, blob: string, message: string, parent: string | undefined): Promise<string> {
+    const indexFile = path.join(os.tmpdir(), `delegate-mcp-index-${crypto.randomBytes(4).toString('hex')}`);
+    const env = { ...process.env, GIT_INDEX_FILE: indexFile };
+
+    try {
+      if (parent) {
+        await this.git(['read-tree', parent], { env });
+      }
+
+      await this.git(['update-index', '--add', '--cacheinfo', `100644,${blob},${normalized}`], { env });
+      const tree = (await this.git(['write-tree'], { env })).trim();
+
+      const commitArgs = ['commit-tree', tree, '-m', message];
+      if (parent) {
+        commitArgs.push('-p', parent);
+      }
+      return (await this.git(commitArgs, { env: this.commitEnv() })).trim();
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  // Create the bare repository on first use
+  private async ensureRepository(): Promise<void> {
+    if (existsSync(path.join(this.repositoryPath, 'HEAD'))) {
+      return;
+    }
+
+    await fs.mkdir(this.repositoryPath, { recursive: true });
+    await this.git(['init', '--bare', '--quiet']);
+    await this.git(['symbolic-ref', 'HEAD', `refs/heads/${this.branch}`]);
+    logger.info(`Initialized git storage repository at ${this.repositoryPath}`);
+  }
+
+  // Resolve a ref to a commit SHA, or undefined if it doesn't exist yet
+  private async resolveRef(ref: string): Promise<string | undefined> {
+    try {
+      return (await this.git(['rev-parse', '--verify', '--quiet', ref])).trim() || undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // Committer identity for storage commits, unless the environment provides one
+  private commitEnv(): NodeJS.ProcessEnv {
+    return {
+      GIT_AUTHOR_NAME: 'delegate-mcp',
+      GIT_AUTHOR_EMAIL: 'delegate-mcp@localhost',
+      GIT_COMMITTER_NAME: 'delegate-mcp',
+      GIT_COMMITTER_EMAIL: 'delegate-mcp@localhost',
+      ...process.env,
+    };
+  }
+
+  // Run a git command against the storage repository
+  private git(args: string[], options: { env?: NodeJS.ProcessEnv; input?: string } = {}): Promise<string> {
+    return runGit(args, { ...options, gitDir: this.repositoryPath });
+  }
+}
@@ -0,0 +1,41 @@
+import { BaseStorageBackend, StoredContent } from './base.js';
+import { github } from '../utils/github.js';
+import { logger } from '../utils/logger.js';
+
+// Stores content as commits to a GitHub repository
+export class GitHubStorageBackend extends BaseStorageBackend {
+  readonly name = 'github';
+
+  constructor(
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly branch: string
+  ) {
+    super();
+  }
+
+  async save(storagePath: string, content: string, message: string): Promise<StoredContent> {
+    const normalized = this.normalizePath(storagePath);
+
+    await github.saveContentToRepo(this.owner, this.repo, normalized, content, message, this.branch);
+    logger.debug(`Saved ${normalized} to GitHub ${this.owner}/${this.repo}`);
+
+    return {
+      path: normalized,
+      location: `https://github.com/${this.owner}/${this.repo}/blob/${this.branch}/${normalized}`,
+    };
+  }
+
+  async load(storagePath: string): Promise<string | undefined> {
+    const normalized = this.normalizePath(storagePath);
+
+    try {
+      return await github.getFileContent(this.owner, this.repo, normalized, this.branch);
+    } catch (error) {
+      if ((error as { status?: number }).status === 404) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
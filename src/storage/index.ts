@@ -0,0 +1,37 @@
+import { StorageBackend, StorageBackendType, StorageOptions } from './base.js';
+import { GitHubStorageBackend } from './github.js';
+import { LocalStorageBackend } from './local.js';
+import { GitStorageBackend } from './git.js';
+import { EphemeralStorageBackend } from './ephemeral.js';
+import { config } from '../utils/config.js';
+
+export * from './base.js';
+
+/**
+ * Create the storage backend for a tool call, falling back to the configured default
+ */
+export function createStorageBackend(type?: StorageBackendType, options: StorageOptions = {}): StorageBackend {
+  const backendType = type || config.get('defaultStorage');
+  const branch = options.branch || config.get('defaultBranch');
+
+  switch (backendType) {
+    case 'github': {
+      const owner = options.owner || config.get('defaultOwner');
+      const repo = options.repo || config.get('defaultRepo');
+
+      if (!owner || !repo) {
+        throw new Error('Repository owner and name are required for GitHub storage. Provide them as parameters, set OWNER and REPO environment variables, or choose another storage backend.');
+      }
+
+      return new GitHubStorageBackend(owner, repo, branch);
+    }
+    case 'local':
+      return new LocalStorageBackend(config.get('outputDirectory'));
+    case 'git':
+      return new GitStorageBackend(config.get('gitStoragePath'), branch);
+    case 'ephemeral':
+      return new EphemeralStorageBackend();
+    default:
+      throw new Error(`Unknown storage backend: ${backendType}`);
+  }
+}
@@ -0,0 +1,40 @@
+import { BaseStorageBackend, StoredContent } from './base.js';
+import { logger } from '../utils/logger.js';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+// Stores content as plain files under a local directory
+export class LocalStorageBackend extends BaseStorageBackend {
+  readonly name = 'local';
+  private readonly rootDirectory: string;
+
+  constructor(rootDirectory: string) {
+    super();
+    this.rootDirectory = path.resolve(process.cwd(), rootDirectory);
+  }
+
+  async save(storagePath: string, content: string, message: string): Promise<StoredContent> {
+    const normalized = this.normalizePath(storagePath);
+    const filePath = path.join(this.rootDirectory, normalized);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf-8');
+    logger.debug(`Saved ${normalized} to local storage (${message})`);
+
+    return {
+      path: normalized,
+      location: filePath,
+    };
+  }
+
+  async load(storagePath: string): Promise<string | undefined> {
+    const filePath = path.join(this.rootDirectory, this.normalizePath(storagePath));
+
+    if (!existsSync(filePath)) {
+      return undefined;
+    }
+
+    return fs.readFile(filePath, 'utf-8');
+  }
+}
@@ -0,0 +1,185 @@
+import { ModelRequestOptions, ModelResponse, ProviderApiError, ProviderTimeoutError } from '../providers/base.js';
+import { config } from '../utils/config.js';
+import { countTokens, estimateRequestTokens, selectTokenCountingStrategy } from '../utils/token-counter.js';
+import { usageLedger, UsageRecord } from './ledger.js';
+import { calculateCost, defaultModelPrices, findModelPrice, ModelPrice } from './pricing.js';
+
+// Periods a spending budget can cap, in UTC days and months
+export const budgetPeriods = ['daily', 'monthly'] as const;
+
+export type BudgetPeriod = typeof budgetPeriods[number];
+
+// Spend so far in a budget period
+export interface BudgetStatus {
+  period: BudgetPeriod;
+  budget: number;
+  spent: number;
+}
+
+// Thrown when a call's estimated cost would take spending over a budget
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly period: BudgetPeriod,
+    readonly budget: number,
+    readonly spent: number,
+    readonly cost: number
+  ) {
+    super(`This call would exceed the ${period} budget of ${formatCost(budget)}: ` +
+          `${formatCost(spent)} spent so far and the call is estimated at ${formatCost(cost)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// The cost of a call that is in flight, counted against the budgets until it is recorded
+export interface Reservation {
+  release(): void;
+}
+
+/**
+ * Enforces DAILY_BUDGET and MONTHLY_BUDGET. Spend is read from the usage
+ * ledger; calls still in flight count with their estimated cost, so that
+ * parallel delegations can't overshoot a budget together.
+ */
+export class SpendingBudget {
+  private static instance: SpendingBudget;
+  private inFlight: Set<{ cost: number }> = new Set();
+
+  private constructor() {}
+
+  public static getInstance(): SpendingBudget {
+    if (!SpendingBudget.instance) {
+      SpendingBudget.instance = new SpendingBudget();
+    }
+    return SpendingBudget.instance;
+  }
+
+  /**
+   * Reserve a call's estimated cost, or throw BudgetExceededError if it
+   * would take spending over a budget
+   * @param cost Estimated cost in US dollars; calls to unpriced models count as free
+   */
+  public reserve(cost: number = 0): Reservation {
+    for (const status of this.getStatus()) {
+      if (status.spent + cost > status.budget) {
+        throw new BudgetExceededError(status.period, status.budget, status.spent, cost);
+      }
+    }
+
+    const entry = { cost };
+    this.inFlight.add(entry);
+    return { release: () => this.inFlight.delete(entry) };
+  }
+
+  /**
+   * Spend in each period that has a budget, including calls in flight
+   */
+  public getStatus(now: Date = new Date()): BudgetStatus[] {
+    const pending = [...this.inFlight].reduce((sum, entry) => sum + entry.cost, 0);
+    const budgets: Record<BudgetPeriod, number | undefined> = {
+      daily: config.get('dailyBudget'),
+      monthly: config.get('monthlyBudget'),
+    };
+
+    return budgetPeriods
+      .filter(period => budgets[period] !== undefined)
+      .map(period => ({
+        period,
+        budget: budgets[period]!,
+        spent: usageLedger.getSpend(periodStart(period, now)) + pending,
+      }));
+  }
+}
+
+// Export a default instance
+export const spendingBudget = SpendingBudget.getInstance();
+
+/**
+ * Start of the current UTC day or month
+ */
+export function periodStart(period: BudgetPeriod, now: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+/**
+ * A model's price from MODEL_PRICING, or else from the built-in price list
+ */
+export function getModelPrice(provider: string, model: string): ModelPrice | undefined {
+  return findModelPrice(config.get('modelPricing'), provider, model) ??
+         findModelPrice(defaultModelPrices, provider, model);
+}
+
+/**
+ * Estimate what a call will cost before it is made, assuming it uses its
+ * whole output token limit; undefined when the model has no price
+ */
+export function estimateCallCost(provider: string, options: ModelRequestOptions): number | undefined {
+  const price = getModelPrice(provider, options.model);
+  if (!price) {
+    return undefined;
+  }
+
+  const { input, output } = estimateRequestTokens(options);
+  return calculateCost(price, input, output);
+}
+
+/**
+ * Build the ledger record for a finished call from the usage its provider
+ * reported, or from local token estimates when it reported none. A call that
+ * failed after reaching the provider is estimated from what it sent and what
+ * was streamed before it failed, since the provider may still bill it.
+ * @param provider Provider the call was made to
+ * @param options The request
+ * @param outcome The response, or the error the call failed with and the output streamed until then
+ * @param repository Repository the delegation worked on, as owner/name
+ */
+export function createUsageRecord(
+  provider: string,
+  options: ModelRequestOptions,
+  outcome: { response?: ModelResponse; error?: unknown; streamedContent?: string },
+  repository?: string
+): UsageRecord {
+  const { response } = outcome;
+  const model = response?.model ?? options.model.replace(`${provider}/`, '');
+  const usage = response?.tokenUsage;
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let estimated = false;
+  if (usage?.prompt !== undefined) {
+    inputTokens = usage.prompt;
+    outputTokens = usage.completion ?? Math.max(0, (usage.total ?? usage.prompt) - usage.prompt);
+  } else if (response || outcome.streamedContent || reachedProvider(outcome.error)) {
+    inputTokens = estimateRequestTokens(options).input;
+    outputTokens = countTokens(response?.content ?? outcome.streamedContent ?? '', selectTokenCountingStrategy(options.model));
+    estimated = true;
+  }
+
+  const price = getModelPrice(provider, model);
+  return {
+    timestamp: new Date().toISOString(),
+    provider: response?.provider ?? provider,
+    model,
+    repository,
+    inputTokens,
+    outputTokens,
+    estimated,
+    cost: price && calculateCost(price, inputTokens, outputTokens),
+    status: response ? 'ok' : 'failed',
+    error: outcome.error !== undefined ? (outcome.error as Error).message : undefined,
+  };
+}
+
+// Whether a call failed after it was sent: the provider answered with an error, or stopped answering
+function reachedProvider(error: unknown): boolean {
+  return error instanceof ProviderTimeoutError ||
+         (error instanceof ProviderApiError && !error.details.network);
+}
+
+/**
+ * Format a cost in US dollars, with more precision for small amounts
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost >= 0.01 || cost === 0 ? 2 : 4)}`;
+}
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+
+// One model call, as recorded in the usage ledger
+export interface UsageRecord {
+  // When the call finished (ISO 8601, UTC)
+  timestamp: string;
+  provider: string;
+  model: string;
+  // Repository the delegation worked on, as owner/name, if known
+  repository?: string;
+  inputTokens: number;
+  outputTokens: number;
+  // Whether the token counts were estimated locally because the provider didn't report them
+  estimated: boolean;
+  // Cost in US dollars, or undefined when the model has no price
+  cost?: number;
+  status: 'ok' | 'failed';
+  error?: string;
+}
+
+/**
+ * Ledger of every model call made for a delegation, appended to
+ * `<outputDirectory>/usage-ledger.jsonl` one JSON record per line so it
+ * survives restarts and can be read by other tools.
+ */
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private ledgerPath: string;
+
+  private constructor() {
+    this.ledgerPath = path.resolve(process.cwd(), config.get('outputDirectory'), 'usage-ledger.jsonl');
+  }
+
+  public static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      UsageLedger.instance = new UsageLedger();
+    }
+    return UsageLedger.instance;
+  }
+
+  public getPath(): string {
+    return this.ledgerPath;
+  }
+
+  /**
+   * Append a call to the ledger
+   */
+  public record(record: UsageRecord): void {
+    try {
+      fs.mkdirSync(path.dirname(this.ledgerPath), { recursive: true });
+      fs.appendFileSync(this.ledgerPath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      logger.warn(`Failed to write usage ledger: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Read the recorded calls, optionally only those made at or after a time
+   */
+  public getRecords(since?: Date): UsageRecord[] {
+    if (!fs.existsSync(this.ledgerPath)) {
+      return [];
+    }
+
+    const records: UsageRecord[] = [];
+    for (const line of fs.readFileSync(this.ledgerPath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      try {
+        records.push(JSON.parse(line) as UsageRecord);
+      } catch (error) {
+        logger.warn(`Ignoring unreadable usage ledger line: ${(error as Error).message}`);
+      }
+    }
+
+    return since ? records.filter(record => Date.parse(record.timestamp) >= since.getTime()) : records;
+  }
+
+  /**
+   * Total cost of the calls made at or after a time
+   */
+  public getSpend(since: Date): number {
+    return this.getRecords(since).reduce((sum, record) => sum + (record.cost ?? 0), 0);
+  }
+}
+
+// Export a default instance
+export const usageLedger = UsageLedger.getInstance();
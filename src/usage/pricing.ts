@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// Schema for a model's price in US dollars per million input and output tokens
+export const modelPriceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+});
+
+export type ModelPrice = z.infer<typeof modelPriceSchema>;
+
+/**
+ * List prices of common models by `provider/model`, used unless MODEL_PRICING
+ * overrides them. Providers change their prices, so these are estimates.
+ */
+export const defaultModelPrices: Record<string, ModelPrice> = {
+  'gemini/gemini-pro': { input: 0.5, output: 1.5 },
+  'gemini/gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini/gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini/gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4.1': { input: 2, output: 8 },
+  'openai/gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai/o3-mini': { input: 1.1, output: 4.4 },
+  'anthropic/claude-3-5-haiku': { input: 0.8, output: 4 },
+  'anthropic/claude-3-5-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3-7-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-sonnet-4': { input: 3, output: 15 },
+  'anthropic/claude-opus-4': { input: 15, output: 75 },
+};
+
+/**
+ * Find a model's price: the entry for `provider/model`, then for the bare
+ * model name, then the longest entry the model name starts with, so that
+ * dated versions such as claude-3-5-sonnet-20241022 get their family's price
+ * @param prices Prices by `provider/model` or model name
+ * @param provider Provider name
+ * @param model Model name, optionally prefixed with the provider
+ */
+export function findModelPrice(
+  prices: Record<string, ModelPrice>,
+  provider: string,
+  model: string
+): ModelPrice | undefined {
+  const name = model.toLowerCase().replace(`${provider.toLowerCase()}/`, '');
+  const qualified = `${provider.toLowerCase()}/${name}`;
+
+  if (prices[qualified] || prices[name]) {
+    return prices[qualified] ?? prices[name];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter(key => qualified.startsWith(key) || name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : undefined;
+}
+
+/**
+ * Cost of a call in US dollars
+ */
+export function calculateCost(price: ModelPrice, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Parse model prices from the environment, as input/output dollars per million
+ * tokens, e.g. `gemini-1.5-pro=1.25/5; openai/gpt-4o=2.5/10; llama3=0/0`
+ */
+export function parseModelPricing(value: string | undefined): Record<string, ModelPrice> {
+  const prices: Record<string, ModelPrice> = {};
+
+  for (const entry of (value ?? '').split(';')) {
+    const [model, price] = entry.split('=').map(part => part.trim());
+    if (!model || !price) {
+      continue;
+    }
+
+    const [input, output] = price.split('/').map(part => Number(part.trim()));
+    prices[model.toLowerCase()] = { input, output: output ?? input };
+  }
+
+  return prices;
+}
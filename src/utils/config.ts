@@ -2,27 +2,86 @@ import dotenv from 'dotenv';
 import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
+import { storageBackendTypes } from '../storage/base.js';
+import { redactionModes } from '../context/redaction.js';
+import { parseSafetySetting, safetySchema } from '../providers/safety.js';
+import { failoverReasons, parseFallbackChains } from '../providers/fallback.js';
+import { parseProviderLimits, providerLimitsSchema } from '../providers/limits.js';
+import { modelPriceSchema, parseModelPricing } from '../usage/pricing.js';
 
 dotenv.config();
 
 const configSchema = z.object({
   // LLM Provider API Key (only Gemini is required)
   geminiApiKey: z.string().optional(),
+  geminiBaseUrl: z.string().default('https://generativelanguage.googleapis.com/v1beta'),
+  
+  // Gemini context caching: large contexts are uploaded once and referenced by later requests
+  geminiContextCache: z.boolean().default(false),
+  geminiCacheTtl: z.number().int().positive().default(3600), // seconds
+  geminiCacheMinTokens: z.number().int().nonnegative().default(4096),
+  
+  // Gemini safety filter thresholds (the API's defaults apply when unset)
+  geminiSafety: safetySchema.optional(),
+  
+  // OpenAI-compatible provider (also used for local servers such as llama.cpp, vLLM and Ollama)
+  openaiApiKey: z.string().optional(),
+  openaiBaseUrl: z.string().default('https://api.openai.com/v1'),
+  
+  // Anthropic Messages API
+  anthropicApiKey: z.string().optional(),
+  anthropicBaseUrl: z.string().default('https://api.anthropic.com'),
   
   // GitHub configuration
   githubToken: z.string().optional(),
+  githubApiUrl: z.string().default('https://api.github.com'),
   defaultRepo: z.string().default(''),
   defaultOwner: z.string().default(''),
   defaultBranch: z.string().default('main'),
   
+  // Storage backend for contexts, conversations and responses
+  defaultStorage: z.enum(storageBackendTypes).default('github'),
+  gitStoragePath: z.string().default('./storage.git'),
+  
+  // Secret redaction applied to packaged context
+  redactionMode: z.enum(redactionModes).default('redact'),
+  redactionAllowlist: z.array(z.string()).default([]),
+  
+  // Files larger than this many bytes are left out of packaged context
+  maxFileSize: z.number().int().positive().default(1024 * 1024),
+  
+  // Reuse packaged files and stored contexts that haven't changed
+  contextCache: z.boolean().default(true),
+  // Cached files not used for this many days are removed
+  contextCacheMaxAgeDays: z.number().positive().default(30),
+  
   // Default models for delegation
   defaultModel: z.string().default('gemini-pro'),
   
+  // Models to fall back on, in order, by requested model, and the failures that trigger it
+  fallbackChains: z.record(z.string(), z.array(z.string())).default({}),
+  fallbackOn: z.array(z.enum(failoverReasons)).default([...failoverReasons]),
+  
   // Misc settings
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   outputDirectory: z.string().default('./output'),
   tempDirectory: z.string().default('./tmp'),
   defaultTimeout: z.number().default(60000), // 1 minute timeout
+  
+  // Retries of provider calls that fail with rate limits, overload or network errors
+  maxRetries: z.number().int().nonnegative().default(3),
+  retryBaseDelay: z.number().int().positive().default(1000), // milliseconds, doubled on each retry
+  
+  // Rate and concurrency limits by provider; calls over a limit wait in a queue
+  providerLimits: z.record(z.string(), providerLimitsSchema).default({}),
+  maxConcurrency: z.number().int().positive().default(4), // per provider, unless its limits say otherwise
+  
+  // Model prices in US dollars per million tokens, over the built-in price list
+  modelPricing: z.record(z.string(), modelPriceSchema).default({}),
+  
+  // Spending caps in US dollars; delegations that would exceed one are refused
+  dailyBudget: z.number().positive().optional(),
+  monthlyBudget: z.number().positive().optional(),
 });
 
 type ConfigType = z.infer<typeof configSchema>;
@@ -36,15 +95,45 @@ export class Config {
     // Load from environment variables
     this.config = {
       geminiApiKey: process.env.GEMINI_API_KEY,
+      geminiBaseUrl: process.env.GEMINI_BASE_URL || 'https://generativelanguage.googleapis.com/v1beta',
+      geminiContextCache: process.env.GEMINI_CONTEXT_CACHE === 'true',
+      geminiCacheTtl: parseInt(process.env.GEMINI_CACHE_TTL || '3600'),
+      geminiCacheMinTokens: parseInt(process.env.GEMINI_CACHE_MIN_TOKENS || '4096'),
+      geminiSafety: parseSafetySetting(process.env.GEMINI_SAFETY),
+      openaiApiKey: process.env.OPENAI_API_KEY,
+      openaiBaseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+      anthropicBaseUrl: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
       githubToken: process.env.GITHUB_API_KEY,
+      githubApiUrl: process.env.GITHUB_API_URL || 'https://api.github.com',
       defaultRepo: process.env.REPO || '',
       defaultOwner: process.env.OWNER || '',
       defaultBranch: process.env.BRANCH || 'main',
+      defaultStorage: (process.env.STORAGE_BACKEND as any) || 'github',
+      gitStoragePath: process.env.GIT_STORAGE_PATH || './storage.git',
+      redactionMode: (process.env.REDACTION_MODE as any) || 'redact',
+      redactionAllowlist: process.env.REDACTION_ALLOWLIST
+        ? process.env.REDACTION_ALLOWLIST.split(',').map(entry => entry.trim()).filter(Boolean)
+        : [],
+      maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '1048576'),
+      contextCache: process.env.CONTEXT_CACHE !== 'false',
+      contextCacheMaxAgeDays: parseFloat(process.env.CONTEXT_CACHE_MAX_AGE_DAYS || '30'),
       defaultModel: process.env.DEFAULT_MODEL || 'gemini-pro',
+      fallbackChains: parseFallbackChains(process.env.FALLBACK_CHAINS),
+      fallbackOn: process.env.FALLBACK_ON
+        ? process.env.FALLBACK_ON.split(',').map(entry => entry.trim()).filter(Boolean) as any
+        : [...failoverReasons],
       logLevel: (process.env.LOG_LEVEL as any) || 'info',
       outputDirectory: process.env.OUTPUT_DIRECTORY || './output',
       tempDirectory: process.env.TEMP_DIRECTORY || './tmp',
       defaultTimeout: parseInt(process.env.DEFAULT_TIMEOUT || '60000'),
+      maxRetries: parseInt(process.env.MAX_RETRIES || '3'),
+      retryBaseDelay: parseInt(process.env.RETRY_BASE_DELAY || '1000'),
+      providerLimits: parseProviderLimits(process.env.PROVIDER_LIMITS),
+      maxConcurrency: parseInt(process.env.MAX_CONCURRENCY || '4'),
+      modelPricing: parseModelPricing(process.env.MODEL_PRICING),
+      dailyBudget: process.env.DAILY_BUDGET ? parseFloat(process.env.DAILY_BUDGET) : undefined,
+      monthlyBudget: process.env.MONTHLY_BUDGET ? parseFloat(process.env.MONTHLY_BUDGET) : undefined,
     };
 
     // Validate the configuration
@@ -0,0 +1,42 @@
+import { execFile } from 'child_process';
+
+// Options for running a git command
+export interface GitCommandOptions {
+  // Repository to use instead of discovering one from the working directory
+  gitDir?: string;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  input?: string;
+}
+
+/**
+ * Run a git command and return its standard output
+ */
+export async function runGit(args: string[], options: GitCommandOptions = {}): Promise<string> {
+  return (await runGitRaw(args, options)).toString('utf-8');
+}
+
+/**
+ * Run a git command and return its standard output as raw bytes, for file
+ * contents that may not be UTF-8
+ */
+export function runGitRaw(args: string[], options: GitCommandOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      'git',
+      options.gitDir ? ['--git-dir', options.gitDir, ...args] : args,
+      { cwd: options.cwd, env: options.env ?? process.env, maxBuffer: 64 * 1024 * 1024, encoding: 'buffer' },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`git ${args[0]} failed: ${stderr.toString('utf-8').trim() || error.message}`));
+        } else {
+          resolve(stdout);
+        }
+      }
+    );
+
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
+  });
+}
@@ -2,6 +2,20 @@ import { Octokit } from 'octokit';
 import { config } from './config.js';
 import { logger } from './logger.js';
 
+// Entry in a git tree listing
+export interface GitTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+// A git tree listing, which GitHub truncates for very large recursive requests
+export interface GitTree {
+  entries: GitTreeEntry[];
+  truncated: boolean;
+}
+
 // GitHub utility class for interacting with repositories and storing results
 export class GitHubClient {
   private static instance: GitHubClient;
@@ -10,10 +24,11 @@ export class GitHubClient {
 
   private constructor() {
     const token = config.get('githubToken');
+    const baseUrl = config.get('githubApiUrl').replace(/\/+$/, '');
     
     if (token) {
       try {
-        this.octokit = new Octokit({ auth: token });
+        this.octokit = new Octokit({ auth: token, baseUrl });
         this.authenticated = true;
         logger.debug('GitHub client initialized successfully');
       } catch (error) {
@@ -22,7 +37,7 @@ export class GitHubClient {
       }
     } else {
       logger.warn('No GitHub token provided. GitHub functionality will be limited.');
-      this.octokit = new Octokit(); // Limited access without authentication
+      this.octokit = new Octokit({ baseUrl }); // Limited access without authentication
     }
   }
 
@@ -44,6 +59,13 @@ export class GitHubClient {
    * Get file content from a GitHub repository
    */
   public async getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string> {
+    return (await this.getFileData(owner, repo, path, ref)).toString('utf-8');
+  }
+
+  /**
+   * Get a file's raw bytes from a GitHub repository
+   */
+  public async getFileData(owner: string, repo: string, path: string, ref?: string): Promise<Buffer> {
     try {
       logger.debug(`Fetching file content from ${owner}/${repo}/${path}${ref ? ` at ${ref}` : ''}`);
       
@@ -56,8 +78,7 @@ export class GitHubClient {
       
       if ('content' in response.data && response.data.content) {
         // Decode base64 content
-        const content = Buffer.from(response.data.content, 'base64').toString('utf-8');
-        return content;
+        return Buffer.from(response.data.content, 'base64');
       } else {
         throw new Error('No content returned from GitHub API');
       }
@@ -68,8 +89,119 @@ export class GitHubClient {
   }
 
   /**
-   * Save content to a file in a GitHub repository
+   * Resolve a branch, tag or commit to its commit SHA and root tree SHA
+   */
+  public async resolveCommit(owner: string, repo: string, ref: string): Promise<{ sha: string; treeSha: string }> {
+    try {
+      logger.debug(`Resolving ${owner}/${repo} at ${ref}`);
+      
+      const response = await this.octokit.rest.repos.getCommit({
+        owner,
+        repo,
+        ref
+      });
+      
+      return { sha: response.data.sha, treeSha: response.data.commit.tree.sha };
+    } catch (error) {
+      logger.error(`Failed to resolve ref: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * List the entries of a tree. With `recursive`, GitHub may truncate very large trees.
    */
-  public async saveContentToRepo(owner: string, repo: string, path: string, content: string, message: string): Promise<void> {
+  public async getTree(owner: string, repo: string, treeSha: string, recursive: boolean): Promise<GitTree> {
+    try {
+      logger.debug(`Fetching tree ${treeSha} from ${owner}/${repo}${recursive ? ' (recursive)' : ''}`);
+      
+      const response = await this.octokit.rest.git.getTree({
+        owner,
+        repo,
+        tree_sha: treeSha,
+        recursive: recursive ? 'true' : undefined
+      });
+      
+      return {
+        entries: response.data.tree
+          .filter(entry => entry.path && entry.sha)
+          .map(entry => ({
+            path: entry.path!,
+            type: entry.type as GitTreeEntry['type'],
+            sha: entry.sha!,
+            size: entry.size,
+          })),
+        truncated: response.data.truncated,
+      };
+    } catch (error) {
+      logger.error(`Failed to get tree: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the raw bytes of a blob by SHA (works for files too large for the contents API)
+   */
+  public async getBlobData(owner: string, repo: string, sha: string): Promise<Buffer> {
+    try {
+      logger.debug(`Fetching blob ${sha} from ${owner}/${repo}`);
+      
+      const response = await this.octokit.rest.git.getBlob({
+        owner,
+        repo,
+        file_sha: sha
+      });
+      
+      return Buffer.from(response.data.content, response.data.encoding === 'base64' ? 'base64' : 'utf-8');
+    } catch (error) {
+      logger.error(`Failed to get blob content: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Save content to a file in a GitHub repository, creating or updating it as needed
+   */
+  public async saveContentToRepo(owner: string, repo: string, path: string, content: string, message: string, branch?: string): Promise<void> {
     if (!this.authenticated) {
-      throw new Error('GitHub
\ No newline at end of file
+      throw new Error('GitHub token is required to save content. Set the GITHUB_API_KEY environment variable.');
+    }
+    
+    try {
+      logger.debug(`Saving content to ${owner}/${repo}/${path}${branch ? ` on ${branch}` : ''}`);
+      
+      // Look up the existing file SHA so an update doesn't conflict
+      let sha: string | undefined;
+      try {
+        const existing = await this.octokit.rest.repos.getContent({
+          owner,
+          repo,
+          path,
+          ref: branch
+        });
+        
+        if (!Array.isArray(existing.data) && 'sha' in existing.data) {
+          sha = existing.data.sha;
+        }
+      } catch (error) {
+        // The file doesn't exist yet, so it will be created
+      }
+      
+      await this.octokit.rest.repos.createOrUpdateFileContents({
+        owner,
+        repo,
+        path,
+        message,
+        content: Buffer.from(content, 'utf-8').toString('base64'),
+        branch,
+        sha
+      });
+    } catch (error) {
+      logger.error(`Failed to save content to GitHub: ${(error as Error).message}`);
+      throw error;
+    }
+  }
+}
+
+// Export a default instance
+export const github = GitHubClient.getInstance();
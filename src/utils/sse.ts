@@ -0,0 +1,81 @@
+/**
+ * Minimal server-sent events reader for streaming HTTP APIs
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Read server-sent events from a fetch response body as they arrive.
+ * If the consumer stops early, the body is cancelled to close the connection.
+ * @param response The streaming fetch response
+ * @returns Async generator of parsed events
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  const reader = response.body.getReader();
+  let buffer = '';
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += decoder.decode(value, { stream: !done });
+
+      // Events are separated by a blank line
+      let boundary: number;
+      while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const event = parseEvent(rawEvent);
+        if (event) {
+          yield event;
+        }
+      }
+
+      if (done) {
+        const event = parseEvent(buffer);
+        if (event) {
+          yield event;
+        }
+        return;
+      }
+    }
+  } finally {
+    if (!finished) {
+      // Errors here only mean the body had already failed
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse a single raw event block into its event name and data
+ */
+function parseEvent(rawEvent: string): ServerSentEvent | undefined {
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split(/\r?\n/)) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return undefined;
+  }
+
+  return { event, data: dataLines.join('\n') };
+}
@@ -1,37 +1,190 @@
 /**
- * Simple token counting utilities.
- * This is a basic implementation; for more accurate results, consider using
- * provider-specific token counters or packages like tiktoken.
+ * Token counting utilities.
+ *
+ * Counts are produced by one of several strategies, chosen from the target
+ * model: an offline BPE tokenizer for OpenAI-style models, the provider's own
+ * token counting endpoint where one exists (Gemini), and a code-aware
+ * heuristic as the fallback.
  */
 
+import { getEncoding, Tiktoken, TiktokenEncoding } from 'js-tiktoken';
+import { ModelRequestOptions, providerRegistry } from '../providers/base.js';
+import { logger } from './logger.js';
+
 // Approximate token count for English text (rough estimate: ~4 chars per token)
 const CHARS_PER_TOKEN = 4;
 
+// Output tokens a model call is assumed to use when it doesn't set maxTokens
+const EXPECTED_OUTPUT_TOKENS = 1024;
+
 // Different counting strategies
 export enum TokenCountingStrategy {
-  APPROXIMATE_CHAR_COUNT, // Quick but rough approximation
-  // Add other counting strategies as needed
+  APPROXIMATE_CHAR_COUNT = 'approximate-char-count', // Quick but rough approximation
+  CODE_HEURISTIC = 'code-heuristic', // Calibrated heuristic for code and non-English text
+  BPE_CL100K = 'bpe-cl100k', // Offline BPE tokenizer (GPT-4, GPT-3.5)
+  BPE_O200K = 'bpe-o200k', // Offline BPE tokenizer (GPT-4o, o-series)
+  GEMINI_API = 'gemini-api', // Gemini countTokens endpoint (async only)
+}
+
+// Result of counting tokens for a specific model
+export interface TokenCount {
+  count: number;
+  strategy: TokenCountingStrategy;
+}
+
+// BPE encoders are expensive to build, so they are created once on first use
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncoder(encoding: TiktokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = getEncoding(encoding);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
 }
 
 /**
- * Count tokens in a text string using a basic approximation method.
+ * Count tokens in a text string using a local strategy.
  * @param text The text to count tokens for
- * @param strategy The counting strategy to use
- * @returns Approximate token count
+ * @param strategy The counting strategy to use; API strategies fall back to the code heuristic
+ * @returns Token count
  */
 export function countTokens(
   text: string,
-  strategy: TokenCountingStrategy = TokenCountingStrategy.APPROXIMATE_CHAR_COUNT
+  strategy: TokenCountingStrategy = TokenCountingStrategy.CODE_HEURISTIC
 ): number {
   switch (strategy) {
     case TokenCountingStrategy.APPROXIMATE_CHAR_COUNT:
       return Math.ceil(text.length / CHARS_PER_TOKEN);
-      
-    // Add other strategies as needed
-      
+
+    case TokenCountingStrategy.BPE_CL100K:
+      return getEncoder('cl100k_base').encode(text, [], []).length;
+
+    case TokenCountingStrategy.BPE_O200K:
+      return getEncoder('o200k_base').encode(text, [], []).length;
+
+    case TokenCountingStrategy.CODE_HEURISTIC:
     default:
-      return Math.ceil(text.length / CHARS_PER_TOKEN);
+      return countTokensHeuristically(text);
+  }
+}
+
+/**
+ * Pick the best local (synchronous) counting strategy for a model.
+ * @param model Target model name, optionally prefixed with its provider
+ */
+export function selectTokenCountingStrategy(model?: string): TokenCountingStrategy {
+  const name = (model ?? '').toLowerCase().replace(/^openai\//, '');
+
+  if (/^(gpt-4o|gpt-4\.1|gpt-5|o1|o3|o4|chatgpt-4o)/.test(name)) {
+    return TokenCountingStrategy.BPE_O200K;
+  }
+
+  if (/^(gpt-4|gpt-3\.5|text-embedding-)/.test(name)) {
+    return TokenCountingStrategy.BPE_CL100K;
+  }
+
+  return TokenCountingStrategy.CODE_HEURISTIC;
+}
+
+/**
+ * Count tokens for a target model, using Gemini's countTokens endpoint for
+ * Gemini models when it is available and the best local strategy otherwise.
+ * @param text The text to count tokens for
+ * @param model Target model name, optionally prefixed with its provider
+ * @param signal Aborts the count; a timed out count falls back to the local estimate
+ * @returns Token count and the strategy that produced it
+ */
+export async function countTokensForModel(text: string, model?: string, signal?: AbortSignal): Promise<TokenCount> {
+  const gemini = providerRegistry.getProvider('gemini');
+
+  if (model && gemini?.countTokens && await gemini.supportsModel(model)) {
+    try {
+      return {
+        count: await gemini.countTokens(text, model, signal),
+        strategy: TokenCountingStrategy.GEMINI_API,
+      };
+    } catch (error) {
+      signal?.throwIfAborted();
+      logger.warn(`Token counting via Gemini failed, using local estimate: ${(error as Error).message}`);
+    }
+  }
+
+  const strategy = selectTokenCountingStrategy(model);
+  return { count: countTokens(text, strategy), strategy };
+}
+
+/**
+ * Estimate the tokens a model call will use before it is made: everything it
+ * sends, counted locally, and its output token limit.
+ * @param options The request to estimate
+ * @returns Estimated input and output tokens
+ */
+export function estimateRequestTokens(options: ModelRequestOptions): { input: number; output: number } {
+  const input = [
+    options.systemPrompt,
+    options.context,
+    ...(options.history ?? []).map(message => message.content),
+    options.prompt,
+  ].filter(Boolean).join('\n\n');
+
+  return {
+    input: countTokens(input, selectTokenCountingStrategy(options.model)),
+    output: options.maxTokens ?? EXPECTED_OUTPUT_TOKENS,
+  };
+}
+
+/**
+ * Code-aware token estimate, calibrated against the cl100k BPE tokenizer on
+ * source code and Markdown (it errs slightly high, which is safe for budgets).
+ *
+ * Words and identifiers up to ten letters are one token, longer ones about
+ * one per seven letters. Digit runs cost one token per three digits and
+ * punctuation runs one per three characters. A newline together with the
+ * indentation that follows it is one token. CJK characters cost a little
+ * over one token each and other non-Latin scripts about one per 2.5 characters.
+ */
+function countTokensHeuristically(text: string): number {
+  let tokens = 0;
+  const pieces = text.match(/[A-Za-z]+|\d+|\r?\n[ \t]*|[ \t]+|[^\sA-Za-z\d\u0080-\uffff]+|[^\u0000-\u007f]+/g) ?? [];
+
+  for (const piece of pieces) {
+    if (/^[A-Za-z]/.test(piece)) {
+      tokens += piece.length <= 10 ? 1 : Math.ceil(piece.length / 7);
+    } else if (/^\d/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (piece[0] === '\n' || piece[0] === '\r') {
+      tokens += 1;
+    } else if (piece[0] === ' ' || piece[0] === '\t') {
+      // A single space is usually merged into the following word
+      tokens += piece.length > 1 ? 1 : 0;
+    } else if (piece.charCodeAt(0) > 0x7f) {
+      tokens += countNonAsciiTokens(piece);
+    } else {
+      tokens += Math.ceil(piece.length / 3);
+    }
   }
+
+  return tokens;
+}
+
+/**
+ * Estimate tokens for a run of non-ASCII characters
+ */
+function countNonAsciiTokens(piece: string): number {
+  let cjk = 0;
+  let other = 0;
+
+  for (const char of piece) {
+    if (/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/.test(char)) {
+      cjk++;
+    } else {
+      other++;
+    }
+  }
+
+  return Math.ceil(cjk * 1.2) + Math.ceil(other / 2.5);
 }
 
 /**
@@ -52,16 +205,16 @@ export function exceedsTokenLimit(text: string, limit: number): boolean {
  */
 export function truncateToTokenLimit(text: string, limit: number): string {
   const estimatedTokens = countTokens(text);
-  
+
   if (estimatedTokens <= limit) {
     return text;
   }
-  
+
   // Approximate character limit
   const approxCharLimit = limit * CHARS_PER_TOKEN;
-  
+
   // Leave some margin for error by using 90% of the calculated limit
   const safeCharLimit = Math.floor(approxCharLimit * 0.9);
-  
+
   return text.substring(0, safeCharLimit) + '\n[Truncated due to token limit]';
 }
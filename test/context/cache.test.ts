@@ -0,0 +1,71 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { CachedSegment, ContextCache } from '../../src/context/cache.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let contextCache: ContextCache;
+let segmentsDirectory: string;
+
+const segment = (content: string): CachedSegment => ({ content, tokens: 1, findings: [], allowed: 0 });
+const segmentPath = (key: string) => path.join(segmentsDirectory, key.slice(0, 2), `${key}.json`);
+
+// Make a segment look like it was last used some days ago
+function age(key: string, days: number): void {
+  const time = new Date(Date.now() - days * DAY_MS);
+  fs.utimesSync(segmentPath(key), time, time);
+}
+
+describe('ContextCache', () => {
+  beforeAll(async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'context-cache-'));
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.CONTEXT_CACHE_MAX_AGE_DAYS = '7';
+    process.env.LOG_LEVEL = 'error';
+    segmentsDirectory = path.join(process.env.TEMP_DIRECTORY, 'context-cache', 'segments');
+
+    ({ contextCache } = await import('../../src/context/cache.js'));
+  });
+
+  beforeEach(() => {
+    fs.rmSync(segmentsDirectory, { recursive: true, force: true });
+  });
+
+  it('removes segments that have not been used within the maximum age', () => {
+    contextCache.putSegment('aa01', segment('old'));
+    contextCache.putSegment('aa02', segment('recent'));
+    contextCache.putSegment('bb01', segment('old'));
+    age('aa01', 8);
+    age('aa02', 6);
+    age('bb01', 30);
+
+    expect(contextCache.pruneSegments(true)).toBe(2);
+    expect(contextCache.getSegment('aa01')).toBeUndefined();
+    expect(contextCache.getSegment('bb01')).toBeUndefined();
+    expect(contextCache.getSegment('aa02')?.content).toBe('recent');
+  });
+
+  it('keeps old segments that are still being read', () => {
+    contextCache.putSegment('cc01', segment('reused'));
+    age('cc01', 30);
+
+    expect(contextCache.getSegment('cc01')?.content).toBe('reused');
+    expect(contextCache.pruneSegments(true)).toBe(0);
+    expect(contextCache.getSegment('cc01')?.content).toBe('reused');
+  });
+
+  it('prunes at most once a day when the cache is written', () => {
+    contextCache.putSegment('dd01', segment('old'));
+    age('dd01', 30);
+    contextCache.flush();
+    expect(fs.existsSync(segmentPath('dd01'))).toBe(false);
+
+    contextCache.putSegment('dd02', segment('old'));
+    age('dd02', 30);
+    contextCache.flush();
+    expect(fs.existsSync(segmentPath('dd02'))).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { decodeText } from '../../src/context/encoding.js';
+
+const text = 'export function greet(name: string) {\n  return `Hello, ${name}`;\n}\n'.repeat(4);
+
+// UTF-16BE, which Node can't encode directly
+const utf16be = (value: string) => Buffer.from(value, 'utf16le').swap16();
+
+describe('decodeText', () => {
+  it('decodes BOM-less UTF-16 text', () => {
+    expect(decodeText(Buffer.from(text, 'utf16le'))).toEqual({ text, encoding: 'utf-16le' });
+    expect(decodeText(utf16be(text))).toEqual({ text, encoding: 'utf-16be' });
+  });
+
+  it('decodes UTF-16 text with a byte order mark', () => {
+    expect(decodeText(Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, 'utf16le')])))
+      .toEqual({ text, encoding: 'utf-16le' });
+  });
+
+  it('treats binary data that looks like BOM-less UTF-16 as binary', () => {
+    // Records of two small 16-bit numbers, a counter and a flag: every odd byte is zero, as in UTF-16LE text
+    const records = Buffer.alloc(400);
+    for (let i = 0; i < records.length; i += 4) {
+      records.writeUInt16LE(0x20 + i / 4, i);
+      records.writeUInt16LE(0x02, i + 2);
+    }
+
+    expect(decodeText(records)).toEqual({ skipReason: 'binary, control characters in utf-16le' });
+  });
+
+  it('treats data with NUL bytes as binary', () => {
+    expect(decodeText(Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00, 0x00, 0x00, 0x00, 0x00])))
+      .toEqual({ skipReason: 'binary, contains NUL bytes' });
+  });
+
+  it('reads text that is not valid UTF-8 as Latin-1', () => {
+    expect(decodeText(Buffer.from('caf\xe9\n', 'latin1'))).toEqual({ text: 'café\n', encoding: 'latin1' });
+  });
+});
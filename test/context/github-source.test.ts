@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StubRequest, StubServer } from '../helpers/stub-server.js';
+
+type GitHubSourceModule = typeof import('../../src/context/github-source.js');
+
+const COMMIT_SHA = 'a'.repeat(40);
+const ROOT_TREE = 'tree-root';
+
+// Tree entries by tree SHA, as the non-recursive listing returns them
+const trees: Record<string, Array<{ path: string; type: 'blob' | 'tree'; sha: string; size?: number }>> = {
+  [ROOT_TREE]: [
+    { path: 'README.md', type: 'blob', sha: 'blob-readme', size: 7 },
+    { path: 'src', type: 'tree', sha: 'tree-src' },
+  ],
+  'tree-src': [
+    { path: 'index.ts', type: 'blob', sha: 'blob-index', size: 13 },
+    { path: 'lib', type: 'tree', sha: 'tree-lib' },
+  ],
+  'tree-lib': [
+    { path: 'util.ts', type: 'blob', sha: 'blob-util', size: 12 },
+  ],
+};
+
+const files: Record<string, string> = {
+  'README.md': '# Hello',
+  'src/index.ts': 'export {};\n//',
+  'src/lib/util.ts': 'export const',
+};
+
+// The recursive listing of the root tree, with full paths
+const recursiveTree = [
+  { path: 'README.md', type: 'blob', sha: 'blob-readme', size: 7 },
+  { path: 'src', type: 'tree', sha: 'tree-src' },
+  { path: 'src/index.ts', type: 'blob', sha: 'blob-index', size: 13 },
+  { path: 'src/lib', type: 'tree', sha: 'tree-lib' },
+  { path: 'src/lib/util.ts', type: 'blob', sha: 'blob-util', size: 12 },
+];
+
+const stub = new StubServer();
+let github: GitHubSourceModule;
+let truncate = false;
+
+// Serve the GitHub REST endpoints the source uses, for any repository
+function handleGitHub(request: StubRequest) {
+  const url = new URL(request.url, 'http://stub');
+  const route = decodeURIComponent(url.pathname).match(/^\/repos\/[^/]+\/[^/]+\/(commits|git\/trees|contents)\/(.+)$/);
+
+  switch (route?.[1]) {
+    case 'commits':
+      return { body: { sha: COMMIT_SHA, commit: { tree: { sha: ROOT_TREE } } } };
+    case 'git/trees':
+      if (url.searchParams.get('recursive')) {
+        return { body: { sha: route[2], tree: truncate ? recursiveTree.slice(0, 2) : recursiveTree, truncated: truncate } };
+      }
+      return { body: { sha: route[2], tree: trees[route[2]], truncated: false } };
+    case 'contents':
+      return files[route[2]] !== undefined
+        ? { body: { type: 'file', content: Buffer.from(files[route[2]]).toString('base64'), encoding: 'base64' } }
+        : { status: 404, body: { message: 'Not Found' } };
+    default:
+      return { status: 404, body: { message: 'Not Found' } };
+  }
+}
+
+const acceptAll = () => true;
+
+// Requests made to a repository
+const requestsFor = (repo: string) => stub.requests.filter(request => request.url.startsWith(`/repos/octo/${repo}/`));
+
+describe('fetchGitHubSource', () => {
+  beforeAll(async () => {
+    const url = await stub.start();
+    stub.handler = handleGitHub;
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'github-source-'));
+    process.env.GITHUB_API_URL = url;
+    process.env.GITHUB_API_KEY = '';
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    github = await import('../../src/context/github-source.js');
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    truncate = false;
+  });
+
+  it('resolves a ref to its commit SHA and fetches the files at that commit', async () => {
+    const result = await github.fetchGitHubSource({ repo: 'octo/resolve', ref: 'main' }, acceptAll, 1024);
+
+    expect(result.sha).toBe(COMMIT_SHA);
+    expect(result.files.map(file => [file.path, file.data.toString()])).toEqual([
+      ['README.md', '# Hello'],
+      ['src/index.ts', 'export {};\n//'],
+      ['src/lib/util.ts', 'export const'],
+    ]);
+    expect(requestsFor('resolve')[0].url).toBe('/repos/octo/resolve/commits/main');
+    expect(requestsFor('resolve').filter(request => request.url.includes('/contents/'))
+      .every(request => request.url.endsWith(`ref=${COMMIT_SHA}`))).toBe(true);
+  });
+
+  it('lists directories one at a time when the recursive tree is truncated', async () => {
+    truncate = true;
+
+    const result = await github.fetchGitHubSource({ repo: 'octo/truncated', paths: ['src'] }, acceptAll, 1024);
+
+    expect(result.files.map(file => file.path)).toEqual(['src/index.ts', 'src/lib/util.ts']);
+    expect(requestsFor('truncated').map(request => request.url).filter(url => url.includes('/git/trees/'))).toEqual([
+      `/repos/octo/truncated/git/trees/${ROOT_TREE}?recursive=true`,
+      `/repos/octo/truncated/git/trees/${ROOT_TREE}`,
+      '/repos/octo/truncated/git/trees/tree-src',
+      '/repos/octo/truncated/git/trees/tree-lib',
+    ]);
+  });
+
+  it('rejects paths that escape the repository', async () => {
+    await expect(github.fetchGitHubSource({ repo: 'octo/escape', paths: ['src/../../secrets'] }, acceptAll, 1024))
+      .rejects.toThrow('Invalid repository path: src/../../secrets');
+    await expect(github.fetchGitHubSource({ repo: 'octo/escape', paths: ['../outside.txt'] }, acceptAll, 1024))
+      .rejects.toThrow('Invalid repository path');
+  });
+
+  it('reuses the tree and files cached for a commit SHA', async () => {
+    await github.fetchGitHubSource({ repo: 'octo/cached', ref: 'main' }, acceptAll, 1024);
+    const firstRequests = requestsFor('cached').length;
+
+    // A full SHA is served from the cache without any requests
+    const bySha = await github.fetchGitHubSource({ repo: 'octo/cached', ref: COMMIT_SHA }, acceptAll, 1024);
+    expect(requestsFor('cached').length).toBe(firstRequests);
+    expect(bySha.files.map(file => file.data.toString())).toContain('# Hello');
+
+    // A ref still has to be resolved, but nothing else is fetched again
+    await github.fetchGitHubSource({ repo: 'octo/cached', ref: 'main' }, acceptAll, 1024);
+    expect(requestsFor('cached').slice(firstRequests).map(request => request.url))
+      .toEqual(['/repos/octo/cached/commits/main']);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { Redactor } from '../../src/context/redaction.js';
+
+const redact = (filePath: string, content: string) => new Redactor('redact').redact(filePath, content);
+
+describe('Redactor', () => {
+  it('redacts values assigned to secret names whether or not they contain digits', () => {
+    expect(redact('deploy.sh', 'PASSWORD=correct-horse-battery\nSECRET_KEY=abcdefghijklmnopqrstuv\nTOKEN=hunter2hunter\n'))
+      .toBe('PASSWORD=[REDACTED:env-assignment]\nSECRET_KEY=[REDACTED:env-assignment]\nTOKEN=[REDACTED:env-assignment]\n');
+  });
+
+  it('redacts digit-less values in .env files', () => {
+    expect(redact('.env', 'DB_PASSWORD="correct-horse-battery"\n'))
+      .toBe('DB_PASSWORD="[REDACTED:env-assignment]"\n');
+  });
+
+  it('redacts quoted digit-less values assigned to secret names in code', () => {
+    expect(redact('config.ts', `const config = { password: 'correct-horse-battery', apiKey: "kPzWqLmRtVbNxYcH" };`))
+      .toBe(`const config = { password: '[REDACTED:secret-assignment]', apiKey: "[REDACTED:secret-assignment]" };`);
+  });
+
+  it.each([
+    `"author": "rashidshafeev"`,
+    `"keywords": "typescript"`,
+    `const tokenizer = "cl100k_base";`,
+    `const primaryKey = 'user_id_column';`,
+    `authMethod: "password_login"`,
+    `const monkeyPatch = 'something_long_here';`,
+    `GIT_AUTHOR_NAME: 'delegate-mcp',`,
+  ])('leaves names that merely contain a secret word alone: %s', content => {
+    expect(redact('package.ts', content)).toBe(content);
+  });
+
+  it('leaves word-like values assigned to secret names in code alone', () => {
+    const content = `const options = { token: 'streaming', password: 'required' };`;
+
+    expect(redact('options.ts', content)).toBe(content);
+  });
+
+  it('redacts values assigned to secret names in any case', () => {
+    expect(redact('settings.yaml', 'client-secret: "Zq9-tRw-Lm2"\nSECRET_ACCESS_KEY: "aB3dE5gH7j"'))
+      .toBe('client-secret: "[REDACTED:secret-assignment]"\nSECRET_ACCESS_KEY: "[REDACTED:secret-assignment]"');
+  });
+
+  it('leaves placeholders and variable references assigned to secret names alone', () => {
+    const content = [
+      'API_KEY=your_api_key_here',
+      'GITHUB_TOKEN=${GITHUB_TOKEN}',
+      'PASSWORD=$DB_PASSWORD',
+      'SECRET=<replace-me>',
+      'AUTH_ENABLED=false',
+      'TOKEN=xxxxxxxx',
+      `const options = { password: 'changeme' };`,
+    ].join('\n');
+
+    expect(redact('.env.example', content)).toBe(content);
+  });
+
+  it('leaves ordinary settings in .env files alone', () => {
+    const content = 'DEFAULT_MODEL=gemini-pro\nSTORAGE_BACKEND=github\nLOG_LEVEL=info\n';
+
+    expect(redact('.env', content)).toBe(content);
+  });
+
+  it('reports each finding with its line', () => {
+    const redactor = new Redactor('redact');
+    redactor.redact('.env', 'HOST=localhost\nPASSWORD=correct-horse-battery\n');
+
+    expect(redactor.getReport().findings).toEqual([{ path: '.env', line: 2, type: 'env-assignment' }]);
+  });
+});
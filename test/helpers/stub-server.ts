@@ -0,0 +1,51 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// A request received by a stub server
+export interface StubRequest {
+  method: string;
+  // Path and query string
+  url: string;
+  body: any;
+}
+
+// Reply from a stub route: a status and a JSON body
+export interface StubReply {
+  status?: number;
+  body?: unknown;
+}
+
+export type StubHandler = (request: StubRequest) => StubReply | Promise<StubReply>;
+
+/**
+ * Local HTTP server standing in for a remote API. Every request is logged,
+ * and replies come from the handler, which can be swapped between tests.
+ */
+export class StubServer {
+  readonly requests: StubRequest[] = [];
+  handler: StubHandler = () => ({ status: 404, body: { message: 'Not Found' } });
+  private server = http.createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => data += chunk);
+    req.on('end', async () => {
+      const request: StubRequest = { method: req.method ?? 'GET', url: req.url ?? '/', body: data ? JSON.parse(data) : undefined };
+      this.requests.push(request);
+
+      const reply = await this.handler(request);
+      res.writeHead(reply.status ?? 200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(reply.body ?? {}));
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  // Close the server along with any kept-alive or stalled connections
+  stop(): Promise<void> {
+    const closed = new Promise<void>(resolve => this.server.close(() => resolve()));
+    this.server.closeAllConnections();
+    return closed;
+  }
+}
@@ -0,0 +1,79 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { DelegationJob, JobManager } from '../../src/jobs/job-manager.js';
+
+let jobManager: JobManager;
+let jobsDirectory: string;
+
+// Cancel a job the way another server process does: by rewriting its file
+function cancelFromOtherProcess(jobId: string): void {
+  const jobPath = path.join(jobsDirectory, `${jobId}.json`);
+  const job = JSON.parse(fs.readFileSync(jobPath, 'utf-8')) as DelegationJob;
+  fs.writeFileSync(jobPath, JSON.stringify({ ...job, status: 'cancelled', updatedAt: new Date().toISOString() }));
+}
+
+// A runner that finishes when told to, or fails when its signal is aborted
+function controllableRunner() {
+  let finish!: (result: string) => void;
+  let aborted = false;
+  const runner = (signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    finish = resolve;
+    signal.addEventListener('abort', () => {
+      aborted = true;
+      reject(new Error('Aborted'));
+    });
+  });
+  return { runner, finish: (result: string) => finish(result), wasAborted: () => aborted };
+}
+
+const waitForStatus = (jobId: string, status: string) =>
+  vi.waitFor(() => expect(jobManager.get(jobId)?.status).toBe(status));
+
+describe('JobManager', () => {
+  beforeAll(async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-manager-'));
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+    jobsDirectory = path.join(process.env.TEMP_DIRECTORY, 'jobs');
+
+    ({ jobManager } = await import('../../src/jobs/job-manager.js'));
+  });
+
+  it('records the result of a job', async () => {
+    const { runner, finish } = controllableRunner();
+    const job = jobManager.start({ model: 'gemini-pro', prompt: 'Hello' }, runner);
+    await waitForStatus(job.id, 'running');
+
+    finish('Done');
+
+    await waitForStatus(job.id, 'completed');
+    expect(jobManager.get(job.id)?.result).toBe('Done');
+  });
+
+  it('aborts a running job cancelled by another process', async () => {
+    const { runner, wasAborted } = controllableRunner();
+    const job = jobManager.start({ model: 'gemini-pro', prompt: 'Hello' }, runner);
+    await waitForStatus(job.id, 'running');
+
+    cancelFromOtherProcess(job.id);
+
+    await vi.waitFor(() => expect(wasAborted()).toBe(true), { timeout: 5000 });
+    expect(jobManager.get(job.id)?.status).toBe('cancelled');
+  });
+
+  it('keeps a cancellation by another process that arrives as the job finishes', async () => {
+    const { runner, finish } = controllableRunner();
+    const job = jobManager.start({ model: 'gemini-pro', prompt: 'Hello' }, runner);
+    await waitForStatus(job.id, 'running');
+
+    cancelFromOtherProcess(job.id);
+    finish('Done');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(jobManager.get(job.id)?.status).toBe('cancelled');
+    expect(jobManager.get(job.id)?.result).toBeUndefined();
+  });
+});
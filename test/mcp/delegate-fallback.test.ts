@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ModelProvider, ModelRequestOptions, ModelResponse, ModelStreamChunk } from '../../src/providers/base.js';
+
+type DelegateModule = typeof import('../../src/mcp/tools/delegate.js');
+type BaseModule = typeof import('../../src/providers/base.js');
+
+let delegate: DelegateModule;
+let base: BaseModule;
+
+// A provider for one model, answering with the context it was sent, or failing with a rate limit
+class FakeProvider implements ModelProvider {
+  constructor(readonly name: string, private readonly model: string, private readonly rateLimited: boolean) {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return [this.model];
+  }
+
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  async supportsModel(model: string): Promise<boolean> {
+    return model === this.model;
+  }
+
+  async generateText(options: ModelRequestOptions): Promise<ModelResponse> {
+    if (this.rateLimited) {
+      throw new base.ProviderApiError(this.name, 'Rate limit exceeded', { status: 429 });
+    }
+    return { content: `context: ${options.context}`, model: options.model, provider: this.name };
+  }
+
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    yield { text: '', response: await this.generateText(options) };
+  }
+}
+
+describe('processModelRequest fallbacks', () => {
+  beforeAll(async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'delegate-fallback-'));
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    base = await import('../../src/providers/base.js');
+    delegate = await import('../../src/mcp/tools/delegate.js');
+    base.providerRegistry.registerProvider(new FakeProvider('alpha', 'alpha-model', true));
+    base.providerRegistry.registerProvider(new FakeProvider('beta', 'beta-model', false));
+  });
+
+  it('reports fallback models that no provider supports as skipped', async () => {
+    const response = await delegate.processModelRequest({
+      provider: base.providerRegistry.getProvider('alpha')!,
+      prompt: 'Explain this',
+      model: 'alpha-model',
+      fallbacks: ['missing-model', 'beta-model'],
+    });
+
+    expect(response.provider).toBe('beta');
+    expect(response.metadata?.fallback.skipped).toEqual([
+      { model: 'alpha-model', provider: 'alpha', reason: 'quota', error: 'Rate limit exceeded' },
+      { model: 'missing-model', provider: 'none', reason: 'unavailable', error: 'No available provider supports this model' },
+    ]);
+  });
+
+  it('names unavailable models when every model fails', async () => {
+    await expect(delegate.processModelRequest({
+      provider: base.providerRegistry.getProvider('alpha')!,
+      prompt: 'Explain this',
+      model: 'alpha-model',
+      fallbacks: ['missing-model'],
+    })).rejects.toThrow('Every model in the fallback chain failed: alpha-model (quota: Rate limit exceeded); ' +
+                        'missing-model (unavailable: No available provider supports this model)');
+  });
+
+  it('sends a fallback model the context packaged for its provider', async () => {
+    const requested: string[] = [];
+
+    const response = await delegate.processModelRequest({
+      provider: base.providerRegistry.getProvider('alpha')!,
+      prompt: 'Explain this',
+      context: 'alpha context',
+      contextFor: async (model, providerName) => {
+        requested.push(`${providerName}/${model}`);
+        return `${providerName} context`;
+      },
+      model: 'alpha-model',
+      fallbacks: ['beta-model'],
+    });
+
+    expect(requested).toEqual(['beta/beta-model']);
+    expect(response.content).toBe('context: beta context');
+  });
+});
@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StubRequest, StubServer } from '../helpers/stub-server.js';
+import type { GeminiProvider } from '../../src/providers/gemini.js';
+
+const MODEL = 'gemini-1.5-pro';
+
+const stub = new StubServer();
+let provider: GeminiProvider;
+
+// Cached contents that exist on the stub, and the status a request for a missing one gets
+const caches = new Set<string>();
+let missingCacheStatus = 404;
+let created = 0;
+
+function handleGemini(request: StubRequest) {
+  if (request.method === 'POST' && request.url === '/cachedContents') {
+    const name = `cachedContents/c${++created}`;
+    caches.add(name);
+    return { body: { name, expireTime: new Date(Date.now() + 600 * 1000).toISOString() } };
+  }
+
+  if (request.method === 'DELETE') {
+    caches.delete(request.url.slice(1));
+    return { body: {} };
+  }
+
+  if (request.url === `/models/${MODEL}:generateContent`) {
+    if (request.body.cachedContent && !caches.has(request.body.cachedContent)) {
+      return { status: missingCacheStatus, body: { error: { message: 'CachedContent not found' } } };
+    }
+    return { body: { candidates: [{ content: { parts: [{ text: 'answer' }] }, finishReason: 'STOP' }] } };
+  }
+
+  return { status: 404, body: { error: { message: 'Not Found' } } };
+}
+
+// A context large enough to be cached
+const context = (label: string) => `// ${label}\n` + 'const value = compute(input);\n'.repeat(50);
+
+const generate = (contextKey: string, text: string) =>
+  provider.generateText({ model: MODEL, prompt: 'Explain this', context: text, contextKey });
+
+const requestsTo = (method: string, url: string) =>
+  stub.requests.filter(request => request.method === method && request.url === url);
+const generateRequests = () => requestsTo('POST', `/models/${MODEL}:generateContent`);
+
+describe('Gemini context caching', () => {
+  beforeAll(async () => {
+    const url = await stub.start();
+    stub.handler = handleGemini;
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-cache-'));
+    process.env.GEMINI_BASE_URL = url;
+    process.env.GEMINI_API_KEY = 'test-key';
+    process.env.GEMINI_CONTEXT_CACHE = 'true';
+    process.env.GEMINI_CACHE_TTL = '600';
+    process.env.GEMINI_CACHE_MIN_TOKENS = '100';
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    const { GeminiProvider } = await import('../../src/providers/gemini.js');
+    provider = new GeminiProvider();
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    missingCacheStatus = 404;
+  });
+
+  it('uploads the context as cached content with the TTL and sends only the prompt', async () => {
+    const response = await generate('create', context('create'));
+
+    const [upload] = requestsTo('POST', '/cachedContents');
+    expect(upload.body).toMatchObject({
+      model: `models/${MODEL}`,
+      contents: [{ role: 'user', parts: [{ text: context('create') }] }],
+      ttl: '600s',
+    });
+
+    const [request] = generateRequests();
+    expect(request.body.cachedContent).toBe(response.metadata?.contextCache.name);
+    expect(request.body.contents).toEqual([{ role: 'user', parts: [{ text: 'Explain this' }] }]);
+    expect(response.metadata?.contextCache.hit).toBe(false);
+  });
+
+  it('reuses the cached content while the context hash matches', async () => {
+    const first = await generate('reuse', context('reuse'));
+    const second = await generate('reuse', context('reuse'));
+
+    expect(requestsTo('POST', '/cachedContents')).toHaveLength(1);
+    expect(second.metadata?.contextCache).toMatchObject({ name: first.metadata?.contextCache.name, hit: true });
+    expect(generateRequests().map(request => request.body.cachedContent))
+      .toEqual([first.metadata?.contextCache.name, first.metadata?.contextCache.name]);
+  });
+
+  it('replaces the cached content when the context changes', async () => {
+    const first = await generate('change', context('before'));
+    const second = await generate('change', context('after'));
+
+    const oldName = first.metadata?.contextCache.name;
+    const newName = second.metadata?.contextCache.name;
+    expect(newName).not.toBe(oldName);
+    expect(requestsTo('POST', '/cachedContents').map(request => request.body.contents[0].parts[0].text))
+      .toEqual([context('before'), context('after')]);
+    expect(requestsTo('DELETE', `/${oldName}`)).toHaveLength(1);
+    expect(second.metadata?.contextCache.hit).toBe(false);
+  });
+
+  it.each([403, 404])('sends the context inline when the cached content is gone (%i)', async status => {
+    missingCacheStatus = status;
+    const slot = `gone-${status}`;
+    const first = await generate(slot, context(slot));
+    caches.delete(first.metadata?.contextCache.name);
+
+    const response = await generate(slot, context(slot));
+
+    expect(response.content).toBe('answer');
+    expect(response.metadata?.contextCache).toBeUndefined();
+    const [, cached, inline] = generateRequests();
+    expect(cached.body.cachedContent).toBe(first.metadata?.contextCache.name);
+    expect(inline.body.cachedContent).toBeUndefined();
+    expect(inline.body.contents[0].parts[0].text).toBe(`${context(slot)}\n\nExplain this`);
+
+    // The stale handle was dropped, so the next call caches the context again
+    await generate(slot, context(slot));
+    expect(requestsTo('POST', '/cachedContents')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,59 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StubServer } from '../helpers/stub-server.js';
+import type { OpenAIProvider } from '../../src/providers/openai.js';
+
+const stub = new StubServer();
+let provider: OpenAIProvider;
+let stalled = true;
+
+const modelRequests = () => stub.requests.filter(request => request.url === '/models').length;
+
+describe('OpenAIProvider.getAvailableModels', () => {
+  beforeAll(async () => {
+    const url = await stub.start();
+    // List one model, or never answer while stalled
+    stub.handler = () => stalled ? new Promise(() => {}) : { body: { data: [{ id: 'llama3' }] } };
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'openai-models-'));
+    process.env.OPENAI_BASE_URL = url;
+    process.env.DEFAULT_TIMEOUT = '200';
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    const { OpenAIProvider } = await import('../../src/providers/openai.js');
+    provider = new OpenAIProvider();
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the default models for a while when the endpoint stalls, then lists them again', async () => {
+    const started = Date.now();
+    const defaults = await provider.getAvailableModels();
+    expect(defaults).toContain('gpt-4o-mini');
+    expect(Date.now() - started).toBeLessThan(2000);
+
+    // The defaults stand in without asking again right away
+    expect(await provider.getAvailableModels()).toEqual(defaults);
+    expect(modelRequests()).toBe(1);
+
+    // A minute later the models are listed again, and kept once listed
+    stalled = false;
+    const later = Date.now() + 61 * 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+    expect(await provider.getAvailableModels()).toEqual(['llama3']);
+
+    vi.spyOn(Date, 'now').mockReturnValue(later + 24 * 60 * 60 * 1000);
+    expect(await provider.getAvailableModels()).toEqual(['llama3']);
+    expect(modelRequests()).toBe(2);
+  });
+});
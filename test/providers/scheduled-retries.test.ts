@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ModelProvider, ModelRequestOptions, ModelResponse, ModelStreamChunk } from '../../src/providers/base.js';
+
+type BaseModule = typeof import('../../src/providers/base.js');
+
+let base: BaseModule;
+let wrap: (provider: ModelProvider) => ModelProvider;
+
+// A provider whose calls take a given time and may fail, logging when each call starts and ends
+class FakeProvider implements ModelProvider {
+  readonly log: string[] = [];
+  private failures = new Map<string, number>();
+
+  constructor(readonly name: string, private readonly durationMs: number) {}
+
+  failNext(prompt: string, times: number): void {
+    this.failures.set(prompt, times);
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async getAvailableModels(): Promise<string[]> {
+    return ['fake-model'];
+  }
+
+  getDefaultModel(): string {
+    return 'fake-model';
+  }
+
+  async supportsModel(model: string): Promise<boolean> {
+    return model === 'fake-model';
+  }
+
+  async generateText(options: ModelRequestOptions): Promise<ModelResponse> {
+    this.log.push(`start ${options.prompt}`);
+    await new Promise(resolve => setTimeout(resolve, this.durationMs));
+    this.log.push(`end ${options.prompt}`);
+
+    const failures = this.failures.get(options.prompt) ?? 0;
+    if (failures > 0) {
+      this.failures.set(options.prompt, failures - 1);
+      throw new base.ProviderApiError(this.name, 'Service unavailable', { status: 503, retryAfterMs: 100 });
+    }
+    return { content: options.prompt, model: options.model, provider: this.name };
+  }
+
+  async *streamText(options: ModelRequestOptions): AsyncIterable<ModelStreamChunk> {
+    yield { text: '', response: await this.generateText(options) };
+  }
+}
+
+describe('ResilientProvider over ScheduledProvider', () => {
+  beforeAll(async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduled-retries-'));
+    process.env.PROVIDER_LIMITS = 'serial: concurrency=1; slow: concurrency=1';
+    process.env.DEFAULT_TIMEOUT = '150';
+    process.env.MAX_RETRIES = '2';
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    base = await import('../../src/providers/base.js');
+    const { ResilientProvider } = await import('../../src/providers/resilience.js');
+    const { ScheduledProvider } = await import('../../src/providers/scheduler.js');
+    wrap = provider => new ResilientProvider(new ScheduledProvider(provider));
+  });
+
+  it('queues every attempt for a slot of its own', async () => {
+    const fake = new FakeProvider('serial', 20);
+    const provider = wrap(fake);
+    fake.failNext('first', 1);
+
+    const [first, second] = await Promise.all([
+      provider.generateText({ model: 'fake-model', prompt: 'first' }),
+      provider.generateText({ model: 'fake-model', prompt: 'second' }),
+    ]);
+
+    expect(first.content).toBe('first');
+    expect(first.metadata?.attempts).toBe(2);
+    expect(second.content).toBe('second');
+    // The second call gets the slot while the first waits to retry
+    expect(fake.log).toEqual(['start first', 'end first', 'start second', 'end second', 'start first', 'end first']);
+  });
+
+  it('leaves the time spent queued out of the timeout', async () => {
+    const provider = wrap(new FakeProvider('slow', 100));
+
+    // Each call takes 100ms of the 150ms timeout, after waiting up to 200ms for the others
+    const responses = await Promise.all(['a', 'b', 'c'].map(prompt =>
+      provider.generateText({ model: 'fake-model', prompt })));
+
+    expect(responses.map(response => response.content)).toEqual(['a', 'b', 'c']);
+    expect(responses[2].metadata?.queueWaitMs).toBeGreaterThanOrEqual(150);
+    expect(responses[2].metadata?.attempts).toBeUndefined();
+  });
+});
@@ -0,0 +1,44 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { GitStorageBackend } from '../../src/storage/git.js';
+
+let directory: string;
+let createBackend: (repositoryPath: string) => GitStorageBackend;
+
+describe('GitStorageBackend', () => {
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'git-storage-'));
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    const { GitStorageBackend } = await import('../../src/storage/git.js');
+    createBackend = repositoryPath => new GitStorageBackend(repositoryPath, 'main');
+  });
+
+  it('saves and loads content', async () => {
+    const storage = createBackend(path.join(directory, 'single.git'));
+
+    const stored = await storage.save('notes/a.md', '# A', 'Save a');
+
+    expect(stored.location).toBe(`${path.join(directory, 'single.git')}#main:notes/a.md`);
+    expect(await storage.load('notes/a.md')).toBe('# A');
+    expect(await storage.load('notes/missing.md')).toBeUndefined();
+  });
+
+  it('keeps every file when saves run concurrently', async () => {
+    const repositoryPath = path.join(directory, 'concurrent.git');
+    await createBackend(repositoryPath).save('first.md', 'first', 'Save first');
+
+    // Separate instances, as separate server processes would have
+    const names = ['a', 'b', 'c', 'd'];
+    await Promise.all(names.map(name => createBackend(repositoryPath).save(`${name}.md`, name, `Save ${name}`)));
+
+    const storage = createBackend(repositoryPath);
+    for (const name of ['first', ...names]) {
+      expect(await storage.load(`${name}.md`)).toBe(name);
+    }
+  });
+});
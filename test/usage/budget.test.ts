@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+type BudgetModule = typeof import('../../src/usage/budget.js');
+type BaseModule = typeof import('../../src/providers/base.js');
+
+let budget: BudgetModule;
+let base: BaseModule;
+
+const request = { model: 'gemini-1.5-pro', prompt: 'Explain this code', context: 'const value = compute(input);\n'.repeat(20) };
+
+describe('createUsageRecord', () => {
+  beforeAll(async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'budget-'));
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    budget = await import('../../src/usage/budget.js');
+    base = await import('../../src/providers/base.js');
+  });
+
+  it('uses the token usage the provider reported', () => {
+    const record = budget.createUsageRecord('gemini', request, {
+      response: { content: 'answer', model: 'gemini-1.5-pro', provider: 'gemini', tokenUsage: { prompt: 1000, completion: 200, total: 1200 } },
+    });
+
+    expect(record).toMatchObject({ inputTokens: 1000, outputTokens: 200, estimated: false, status: 'ok', cost: 0.00225 });
+  });
+
+  it('estimates what a call sent and streamed before it failed', async () => {
+    const { estimateRequestTokens } = await import('../../src/utils/token-counter.js');
+    const error = new base.ProviderApiError('gemini', 'Internal error', { status: 500 });
+
+    const withoutOutput = budget.createUsageRecord('gemini', request, { error, streamedContent: '' });
+    const withOutput = budget.createUsageRecord('gemini', request, { error, streamedContent: 'The code computes a value '.repeat(10) });
+
+    expect(withoutOutput).toMatchObject({ inputTokens: estimateRequestTokens(request).input, outputTokens: 0, estimated: true, status: 'failed' });
+    expect(withOutput.inputTokens).toBe(withoutOutput.inputTokens);
+    expect(withOutput.outputTokens).toBeGreaterThan(0);
+    expect(withOutput.cost).toBeGreaterThan(withoutOutput.cost!);
+  });
+
+  it('estimates a call that timed out', () => {
+    const record = budget.createUsageRecord('gemini', request, { error: new base.ProviderTimeoutError('gemini', 1000) });
+
+    expect(record.inputTokens).toBeGreaterThan(0);
+    expect(record.estimated).toBe(true);
+  });
+
+  it('records no tokens for a call that never reached the provider', () => {
+    const network = new base.ProviderApiError('gemini', 'Connection refused', { network: true });
+
+    for (const error of [network, new Error('Gemini provider is not available')]) {
+      expect(budget.createUsageRecord('gemini', request, { error, streamedContent: '' }))
+        .toMatchObject({ inputTokens: 0, outputTokens: 0, estimated: false, cost: 0, status: 'failed' });
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { readServerSentEvents } from '../../src/utils/sse.js';
+
+// A streaming response that sends the chunks, then stays open unless told to end
+function streamingResponse(chunks: string[], end: boolean) {
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(new TextEncoder().encode(chunk));
+      }
+      if (end) {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+  return { response: new Response(body), wasCancelled: () => cancelled };
+}
+
+describe('readServerSentEvents', () => {
+  it('parses events split across chunks', async () => {
+    const { response, wasCancelled } = streamingResponse(['event: delta\ndata: {"a":', '1}\n\ndata: one\r\ndata: two\r\n\r\n', 'data: last'], true);
+
+    const events = [];
+    for await (const event of readServerSentEvents(response)) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { event: 'delta', data: '{"a":1}' },
+      { event: undefined, data: 'one\ntwo' },
+      { event: undefined, data: 'last' },
+    ]);
+    expect(wasCancelled()).toBe(false);
+  });
+
+  it('cancels the body when the consumer stops early', async () => {
+    const { response, wasCancelled } = streamingResponse(['data: first\n\n', 'data: second\n\n'], false);
+
+    for await (const event of readServerSentEvents(response)) {
+      expect(event.data).toBe('first');
+      break;
+    }
+
+    expect(wasCancelled()).toBe(true);
+    expect(response.body?.locked).toBe(false);
+  });
+});
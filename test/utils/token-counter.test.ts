@@ -0,0 +1,69 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StubServer } from '../helpers/stub-server.js';
+
+type TokenCounterModule = typeof import('../../src/utils/token-counter.js');
+
+const MODEL = 'gemini-1.5-pro';
+
+const stub = new StubServer();
+let tokenCounter: TokenCounterModule;
+let stalled = false;
+
+describe('countTokensForModel', () => {
+  beforeAll(async () => {
+    const url = await stub.start();
+    // Count every character as a token, or never answer while stalled
+    stub.handler = request => stalled
+      ? new Promise(() => {})
+      : { body: { totalTokens: request.body.contents[0].parts[0].text.length } };
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'token-counter-'));
+    process.env.GEMINI_BASE_URL = url;
+    process.env.GEMINI_API_KEY = 'test-key';
+    process.env.DEFAULT_TIMEOUT = '200';
+    process.env.TEMP_DIRECTORY = path.join(directory, 'tmp');
+    process.env.OUTPUT_DIRECTORY = path.join(directory, 'output');
+    process.env.LOG_LEVEL = 'error';
+
+    const { initializeProviders } = await import('../../src/providers/index.js');
+    initializeProviders();
+    tokenCounter = await import('../../src/utils/token-counter.js');
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stalled = false;
+  });
+
+  it('counts with the Gemini countTokens endpoint', async () => {
+    const result = await tokenCounter.countTokensForModel('some text', MODEL);
+
+    expect(result).toEqual({ count: 9, strategy: tokenCounter.TokenCountingStrategy.GEMINI_API });
+    expect(stub.requests.at(-1)?.url).toBe(`/models/${MODEL}:countTokens`);
+  });
+
+  it('falls back to the local estimate when the endpoint stalls past the timeout', async () => {
+    stalled = true;
+
+    const started = Date.now();
+    const result = await tokenCounter.countTokensForModel('some text', MODEL);
+
+    expect(result.strategy).not.toBe(tokenCounter.TokenCountingStrategy.GEMINI_API);
+    expect(result.count).toBeGreaterThan(0);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('stops counting when the caller aborts', async () => {
+    stalled = true;
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('Cancelled')), 20);
+
+    await expect(tokenCounter.countTokensForModel('some text', MODEL, controller.signal)).rejects.toThrow('Cancelled');
+  });
+});